@@ -0,0 +1,420 @@
+import type { EntityAttributes } from "./entity.js";
+import type { Engine, System } from "./loop.js";
+
+/**
+ * The type of an attribute. All attribute values are stored as numbers;
+ * booleans are stored as 0 or 1.
+ */
+export type AttributeType = "number" | "integer" | "boolean";
+
+/**
+ * The definition of an attribute.
+ */
+export interface AttributeDefinition {
+  /** The type of the attribute. Defaults to number. */
+  type?: AttributeType;
+  /**
+   * The minimum value of the attribute. This can be the name of another
+   * attribute, whose value is then the minimum.
+   */
+  min?: number | EntityAttributes;
+  /**
+   * The maximum value of the attribute. This can be the name of another
+   * attribute, whose value is then the maximum, such as `maxHealth`.
+   */
+  max?: number | EntityAttributes;
+  /** The value of the attribute when an entity is created without it. */
+  default?: number;
+  /** The amount by which the attribute changes every frame. */
+  regen?: number;
+}
+
+/**
+ * An error that occurred while validating an attribute.
+ */
+export class AttributeError extends AggregateError {
+  /** The name of the attribute. */
+  readonly attribute: string;
+  /** The value that was invalid. */
+  readonly value: unknown;
+
+  constructor(attribute: string, value: unknown, message: string) {
+    super([], message);
+    this.attribute = attribute;
+    this.value = value;
+  }
+}
+
+/**
+ * How a modifier changes the value of an attribute.
+ */
+export enum ModifierType {
+  /** The value of the modifier is added to the attribute. */
+  Add = "ADD",
+  /** The attribute is multiplied by the value of the modifier. */
+  Multiply = "MULTIPLY",
+}
+
+/**
+ * What happens when a modifier is added to an attribute that already has a
+ * modifier with the same ID.
+ */
+export enum StackingPolicy {
+  /** The new modifier replaces the existing one, restarting its duration. */
+  Refresh = "REFRESH",
+  /**
+   * The modifier gains a stack, up to its maximum number of stacks, and its
+   * duration restarts. Every stack applies the modifier once more.
+   */
+  Stack = "STACK",
+  /**
+   * The strongest of the two modifiers is kept. If they are equally strong,
+   * the later expiry is kept.
+   */
+  Max = "MAX",
+}
+
+/**
+ * A temporary change to the value of an attribute, such as a buff or a
+ * debuff. Modifiers do not change the base value of an attribute; the
+ * effective value is computed when it is read.
+ */
+export interface AttributeModifier {
+  /**
+   * The ID of the modifier, such as `spell.haste`. Modifiers of an attribute
+   * with the same ID stack according to their stacking policy.
+   */
+  id: string;
+  /** The attribute to modify. */
+  attribute: EntityAttributes;
+  /** How the modifier changes the attribute. */
+  type: ModifierType;
+  /** The amount to add, or the factor to multiply by. */
+  value: number;
+  /**
+   * The frame at which the modifier expires. Without it, the modifier lasts
+   * until it is removed.
+   */
+  expiresAt?: number;
+  /** The stacking policy of the modifier. Defaults to refresh. */
+  stacking?: StackingPolicy;
+  /** The maximum number of stacks. Defaults to no maximum. */
+  maxStacks?: number;
+  /** The number of stacks of the modifier. Defaults to 1. */
+  stacks?: number;
+}
+
+/**
+ * Stack a modifier onto the existing modifier with the same ID, according to
+ * the stacking policy of the new modifier.
+ * @param existing The existing modifier, if any.
+ * @param modifier The modifier to add.
+ * @returns The modifier that results from stacking.
+ */
+export function stackModifier(
+  existing: Readonly<AttributeModifier> | undefined,
+  modifier: Readonly<AttributeModifier>,
+): AttributeModifier {
+  const stacks = Math.max(1, modifier.stacks ?? 1);
+
+  if (!existing) {
+    return { ...modifier, stacks };
+  }
+
+  switch (modifier.stacking ?? StackingPolicy.Refresh) {
+    case StackingPolicy.Stack:
+      return {
+        ...modifier,
+        stacks: Math.min(
+          (existing.stacks ?? 1) + stacks,
+          modifier.maxStacks ?? Infinity,
+        ),
+      };
+    case StackingPolicy.Max: {
+      const difference = strength(modifier) - strength(existing);
+
+      if (difference > 0) {
+        return { ...modifier, stacks };
+      } else if (difference < 0) {
+        return { ...existing };
+      }
+
+      return {
+        ...existing,
+        expiresAt: existing.expiresAt === undefined ||
+            modifier.expiresAt === undefined
+          ? undefined
+          : Math.max(existing.expiresAt, modifier.expiresAt),
+      };
+    }
+    default:
+      return { ...modifier, stacks };
+  }
+}
+
+/**
+ * The strength of a modifier: how far it moves the value of an attribute, in
+ * either direction.
+ */
+function strength(modifier: Readonly<AttributeModifier>): number {
+  const stacks = modifier.stacks ?? 1;
+
+  return modifier.type === ModifierType.Multiply
+    ? Math.abs(Math.log(Math.abs(modifier.value ** stacks) || Number.MIN_VALUE))
+    : Math.abs(modifier.value * stacks);
+}
+
+/**
+ * Apply modifiers to a value. Additive modifiers are applied first, then
+ * multiplicative modifiers.
+ * @param value The base value.
+ * @param modifiers The modifiers to apply.
+ * @returns The modified value.
+ */
+export function applyModifiers(
+  value: number,
+  modifiers: Iterable<Readonly<AttributeModifier>>,
+): number {
+  let add = 0;
+  let multiply = 1;
+
+  for (const modifier of modifiers) {
+    const stacks = modifier.stacks ?? 1;
+
+    if (modifier.type === ModifierType.Multiply) {
+      multiply *= modifier.value ** stacks;
+    } else {
+      add += modifier.value * stacks;
+    }
+  }
+
+  return (value + add) * multiply;
+}
+
+/**
+ * The attributes that every schema defines, because the engine relies on
+ * them.
+ */
+const builtinAttributes: Record<string, AttributeDefinition> = {
+  health: { type: "number", min: 0, max: "maxHealth" },
+  maxHealth: { type: "number", min: 0 },
+  damage: { type: "number", min: 0 },
+  armor: { type: "number" },
+  sleepUntil: { type: "integer", min: 0 },
+  speed: { type: "number", min: 0 },
+  range: { type: "number", min: 0 },
+};
+
+/**
+ * An attribute schema. The schema defines the attributes that the entities of
+ * an arena can have, and validates their values.
+ *
+ * ```ts
+ * const schema = AttributeSchema.fromObject({
+ *   mana: { type: "number", min: 0, max: "maxMana", regen: 0.1 },
+ *   maxMana: { type: "number", default: 100 },
+ * });
+ * ```
+ */
+export class AttributeSchema {
+  /**
+   * Build a schema from an object of definitions. The built-in attributes
+   * are always defined.
+   * @param definitions The definitions of the attributes, by name.
+   * @returns A new schema.
+   */
+  static fromObject(
+    definitions: Record<string, AttributeDefinition>,
+  ): AttributeSchema {
+    const schema = new AttributeSchema();
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      schema.define(name, definition);
+    }
+
+    return schema;
+  }
+
+  /** The definitions of the attributes, by name. */
+  #definitions: Map<EntityAttributes, AttributeDefinition> = new Map();
+
+  constructor() {
+    for (const [name, definition] of Object.entries(builtinAttributes)) {
+      this.define(name, definition);
+    }
+  }
+
+  /**
+   * Defines an attribute, replacing its previous definition.
+   * @param name The name of the attribute.
+   * @param definition The definition of the attribute.
+   */
+  define(
+    name: EntityAttributes,
+    definition: AttributeDefinition,
+  ): AttributeSchema {
+    this.#definitions.set(name, definition);
+    return this;
+  }
+
+  /**
+   * Gets the definition of an attribute.
+   * @param name The name of the attribute.
+   * @returns The definition, or undefined if the attribute is not defined.
+   */
+  get(name: EntityAttributes): Readonly<AttributeDefinition> | undefined {
+    return this.#definitions.get(name);
+  }
+
+  /**
+   * Whether an attribute is defined.
+   * @param name The name of the attribute.
+   */
+  has(name: EntityAttributes): boolean {
+    return this.#definitions.has(name);
+  }
+
+  /**
+   * Validates the value of an attribute, and clamps it to the range of the
+   * attribute.
+   * @param name The name of the attribute.
+   * @param value The value to validate.
+   * @param resolve Resolves the values of the attributes that the range
+   * refers to.
+   * @returns The clamped value.
+   * @throws {AttributeError} If the attribute is not defined, or the value
+   * does not match its type.
+   */
+  validate(
+    name: EntityAttributes,
+    value: number,
+    resolve: (name: EntityAttributes) => number | undefined = () => undefined,
+  ): number {
+    const definition = this.#definitions.get(name);
+
+    if (!definition) {
+      throw new AttributeError(name, value, `Unknown attribute: ${name}`);
+    } else if (typeof value !== "number" || Number.isNaN(value)) {
+      throw new AttributeError(
+        name,
+        value,
+        `Attribute ${name} must be a number.`,
+      );
+    }
+
+    switch (definition.type) {
+      case "integer":
+        if (!Number.isInteger(value) && Number.isFinite(value)) {
+          throw new AttributeError(
+            name,
+            value,
+            `Attribute ${name} must be an integer.`,
+          );
+        }
+        break;
+      case "boolean":
+        if (value !== 0 && value !== 1) {
+          throw new AttributeError(
+            name,
+            value,
+            `Attribute ${name} must be 0 or 1.`,
+          );
+        }
+        break;
+    }
+
+    return this.clamp(name, value, resolve);
+  }
+
+  /**
+   * Clamps the value of an attribute to its range, without validating its
+   * type.
+   * @param name The name of the attribute.
+   * @param value The value to clamp.
+   * @param resolve Resolves the values of the attributes that the range
+   * refers to.
+   * @returns The clamped value.
+   */
+  clamp(
+    name: EntityAttributes,
+    value: number,
+    resolve: (name: EntityAttributes) => number | undefined = () => undefined,
+  ): number {
+    const definition = this.#definitions.get(name);
+    const bound = (limit?: number | EntityAttributes) =>
+      typeof limit === "string" ? resolve(limit) : limit;
+    const min = bound(definition?.min);
+    const max = bound(definition?.max);
+
+    if (min !== undefined && value < min) {
+      return min;
+    } else if (max !== undefined && value > max) {
+      return max;
+    }
+
+    return value;
+  }
+
+  /**
+   * The definitions of the attributes.
+   */
+  [Symbol.iterator](): IterableIterator<
+    [EntityAttributes, Readonly<AttributeDefinition>]
+  > {
+    return this.#definitions.entries();
+  }
+}
+
+/**
+ * The default attribute schema. This defines only the built-in attributes.
+ */
+export const defaultAttributeSchema = new AttributeSchema();
+
+/**
+ * Creates the regeneration system. Every frame, the system changes the
+ * attributes of every awake entity by the regeneration rate of their
+ * definition, within their range.
+ * @returns The regeneration system.
+ */
+export function createRegenerationSystem(): System {
+  return (engine: Engine) => {
+    for (const entity of engine.entities) {
+      if (engine.quarantined.has(entity)) {
+        continue;
+      } else if (
+        entity.sleepUntil !== undefined && engine.time < entity.sleepUntil
+      ) {
+        continue;
+      }
+
+      // Dead entities do not regenerate.
+      const health = entity.getFragment<number>(
+        `Entity[${entity.id}].attributes.health`,
+      )?.value ?? entity.attributes.get("health")?.value;
+
+      if (health !== undefined && health <= 0) {
+        continue;
+      }
+
+      const { schema } = entity.attributes;
+
+      for (const { name, value } of entity.attributes) {
+        const regen = schema.get(name)?.regen;
+
+        if (!regen) {
+          continue;
+        }
+
+        // Start from the value set earlier this frame, if any.
+        const current = entity.getFragment<number>(
+          `Entity[${entity.id}].attributes.${name}`,
+        )?.value ?? value;
+        const next = entity.attributes.validate(name, current + regen);
+
+        if (next !== current) {
+          entity.setAttribute(name, next);
+        }
+      }
+    }
+  };
+}
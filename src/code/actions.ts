@@ -1,21 +1,81 @@
+import { createAttackAction } from "../combat.js";
 import type { Engine } from "../engine.js";
 import type { Entity } from "../entity.js";
 import { DeepReadonly } from "../lobby.js";
+import type {
+  Entity as EngineEntity,
+  Removetrigger,
+  System,
+} from "../loop.js";
+import { createMovementSteps, Movement, Vector3D } from "./movement.js";
 
 /**
  * A function that creates an action. The action is created for a specific entity.
  * @template Key The key of the action.
  * @param entity The entity to create the action for.
+ * @param args The values of the arguments, validated against `args`.
  * @returns The action.
  */
 export type ActionCreator<
   Key extends string = string,
   Arguments extends ActionArguments = ActionArguments,
-> = (
-  engine: Engine,
-  entity: Entity,
-  ...args: Arguments
-) => Action<Key, Arguments> | undefined;
+> = {
+  (
+    engine: Engine,
+    entity: Entity,
+    ...args: ArgumentValues<Arguments>
+  ): Action<Key, Arguments> | undefined;
+  /**
+   * The arguments of the action. The handler validates the values against
+   * them and applies their defaults before it calls the creator. Creators
+   * without them get the values as they were passed.
+   */
+  readonly args?: Arguments;
+};
+
+/**
+ * Defines an action creator whose arguments are validated by the handler. The
+ * arguments are added to the actions that the creator returns.
+ * @param args The arguments of the action.
+ * @param creator The action creator, which gets the validated values.
+ * @returns The action creator.
+ *
+ * ```ts
+ * const heal = defineAction(
+ *   [
+ *     { type: "entity", name: "target" },
+ *     { type: "number", name: "amount", value: 10 },
+ *   ],
+ *   (_engine, _entity, target, amount) => ({
+ *     key: "heal",
+ *     fuel: amount,
+ *     execute: () => target.setAttribute("health", amount),
+ *   }),
+ * );
+ * ```
+ */
+export function defineAction<
+  Key extends string,
+  const Arguments extends ActionArguments,
+>(
+  args: Arguments,
+  creator: (
+    engine: Engine,
+    entity: Entity,
+    ...args: ArgumentValues<Arguments>
+  ) => Omit<Action<Key, Arguments>, "args"> | undefined,
+): ActionCreator<Key, Arguments> {
+  const create = (
+    engine: Engine,
+    entity: Entity,
+    ...values: ArgumentValues<Arguments>
+  ) => {
+    const action = creator(engine, entity, ...values);
+    return action && { ...action, args };
+  };
+
+  return Object.assign(create, { args });
+}
 
 /**
  * A record of action creators. The keys are the keys of the actions. The values are the action creators.
@@ -28,55 +88,366 @@ export type ActionCreators<
   [K in Key]: ActionCreator<K extends string ? K : never, Actions[K]["args"]>;
 };
 
+/**
+ * The built-in actions. The `attack` action deals damage through the damage
+ * pipeline of the engine.
+ */
 export const actions: ActionCreators<{
-  move: Action<"move", ["destination"]>;
-  sleep: Action<"sleep", ["end"]>;
+  move: Action<"move", [ActionArgumentDescriptor<"destination", "vector">]>;
+  sleep: Action<"sleep", [ActionArgumentDescriptor<"end", "integer">]>;
+  attack: Action<"attack", [ActionArgumentDescriptor<"target", "entity">]>;
 }> = {
-  move: (_engine, _entity, fff) => ({
-    key: "move",
-    fuel: 1,
-    fuelDistanceMultiplier: 1,
-    args: ["destination"],
-  }),
-  sleep: (_engine, _entity, ggg) => ({
-    key: "sleep",
-    fuel: 0,
-    args: ["end"],
-  }),
+  move: createMoveAction(),
+  sleep: defineAction(
+    [{ type: "integer", name: "end" }],
+    (engine, entity, end) => ({
+      key: "sleep",
+      fuel: 0,
+      duration: Math.max(0, end - engine.time),
+      execute: () => {
+        entity.setAttribute("sleepUntil", end);
+        return { until: end };
+      },
+    }),
+  ),
+  attack: createAttackAction(),
 };
 
+/**
+ * Finds the route of an entity to a destination.
+ * @param from The location of the entity.
+ * @param to The destination.
+ * @returns The points of the route, starting at `from`, or undefined if the
+ * destination cannot be reached.
+ */
+export type MoveRoute = (
+  from: Vector3D,
+  to: Vector3D,
+) => Vector3D[] | undefined;
+
+/**
+ * Creates the creator of the `move` action, which moves the entity along a
+ * route at its `speed`, in distance per frame. The fuel cost grows with the
+ * length of the route.
+ * @param route Finds the route. Defaults to a straight line.
+ * @returns The action creator.
+ */
+export function createMoveAction(
+  route: MoveRoute = (from, to) => [from, to],
+): ActionCreator<"move", [ActionArgumentDescriptor<"destination", "vector">]> {
+  return defineAction(
+    [{ type: "vector", name: "destination" }],
+    (engine, entity, to) => {
+      const speed = entity.attributes.get("speed")?.value ?? 1;
+
+      // Entities without speed cannot move.
+      if (speed <= 0) {
+        return undefined;
+      }
+
+      const path = route(entity.location, to);
+
+      if (!path || path.length < 2) {
+        return undefined;
+      }
+
+      const steps = createMovementSteps(path, {
+        startFrame: engine.time,
+        speed,
+        orientation: entity.orientation.toArray(),
+      });
+      const distance = path.slice(1).reduce((total, point, index) => {
+        const { x, y, z } = point.subtract(path[index]);
+        return total + Math.hypot(x, y, z);
+      }, 0);
+
+      return {
+        key: "move",
+        fuel: 1,
+        fuelDistanceMultiplier: 1,
+        distance,
+        duration: steps[steps.length - 1].endFrame - engine.time,
+        execute: () => {
+          const movement = new Movement({ entity, engine, steps });
+
+          entity.setMovement(movement);
+          return { movement: movement.id, arrival: movement.endFrame };
+        },
+      };
+    },
+  );
+}
+
+/**
+ * The type of an argument.
+ *
+ * - `vector` accepts vectors, `{ x, y, z }` objects and `[x, y, z]` arrays,
+ *   and converts them to vectors.
+ * - `entity` accepts entities, their IDs and objects with their ID, and
+ *   resolves them to the entities of the engine.
+ * - `enum` accepts one of the `values` of the argument.
+ */
+export type ActionArgumentType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "unknown"
+  | "vector"
+  | "entity"
+  | "enum";
+
 /**
  * The type of a value for a given type.
  * @template Type The type to get the value type for.
  */
 export type TypeToValue<
-  Type extends "string" | "number" | "boolean" | "unknown",
-> = Type extends "string" ? string
-  : Type extends "number" ? number
+  Type extends ActionArgumentType,
+> = Type extends "string" | "enum" ? string
+  : Type extends "number" | "integer" ? number
   : Type extends "boolean" ? boolean
+  : Type extends "vector" ? Vector3D
+  : Type extends "entity" ? EngineEntity
   : Type extends "unknown" ? unknown
   : never;
 
 /**
- * An argument required to perform an action.
+ * The description of an argument, which the handler validates its value
+ * against.
  * @template Name The name of the argument.
  * @template Type The type of the argument.
  * @template Value The value of the argument.
  */
-export type ActionArgument<
+export interface ActionArgumentDescriptor<
   Name extends string = string,
-  Type extends "string" | "number" | "boolean" | "unknown" = "unknown",
+  Type extends ActionArgumentType = ActionArgumentType,
   Value = TypeToValue<Type>,
-> = Name | {
+> {
   type: Type;
   name: Name;
+  /** The default value, used when the argument is missing or nil. */
   value?: Value;
-};
+  /** Whether the argument can be missing without a default. */
+  optional?: boolean;
+  /** The allowed values of an `enum` argument. */
+  values?: readonly string[];
+}
+
+/**
+ * An argument required to perform an action. An argument that is only a name
+ * is required and accepts any value.
+ * @template Name The name of the argument.
+ * @template Type The type of the argument.
+ * @template Value The value of the argument.
+ */
+export type ActionArgument<
+  Name extends string = string,
+  Type extends ActionArgumentType = "unknown",
+  Value = TypeToValue<Type>,
+> = Name | ActionArgumentDescriptor<Name, Type, Value>;
 
 /**
  * The arguments required to perform an action.
  */
-export type ActionArguments = ActionArgument[];
+export type ActionArguments = readonly ActionArgument<
+  string,
+  ActionArgumentType
+>[];
+
+/**
+ * The value of an argument once it is validated.
+ */
+export type ArgumentValue<Argument> = Argument extends
+  ActionArgumentDescriptor<string, infer Type> ? TypeToValue<Type>
+  : unknown;
+
+/**
+ * The values of arguments once they are validated.
+ */
+export type ArgumentValues<Arguments extends ActionArguments> = {
+  -readonly [Index in keyof Arguments]: ArgumentValue<Arguments[Index]>;
+};
+
+/**
+ * An error in the arguments of an action.
+ */
+export class ActionArgumentError extends AggregateError {
+  /** The key of the action. */
+  readonly action: string;
+  /** The name of the argument, if it was declared. */
+  readonly argument?: string;
+  /** The position of the argument. */
+  readonly index: number;
+  /** The value that was invalid. */
+  readonly value: unknown;
+  /** The result of the check that the error causes. */
+  readonly result: CheckResult;
+
+  constructor(
+    action: string,
+    argument: string | undefined,
+    index: number,
+    value: unknown,
+    result: CheckResult,
+    message: string,
+  ) {
+    super([], message);
+    this.action = action;
+    this.argument = argument;
+    this.index = index;
+    this.value = value;
+    this.result = result;
+  }
+}
+
+/**
+ * Validate the values of arguments against their descriptions, and apply
+ * their defaults.
+ * @param engine The engine that resolves entity references.
+ * @param key The key of the action, for error messages.
+ * @param args The arguments of the action.
+ * @param values The values to validate.
+ * @returns The validated values.
+ * @throws {ActionArgumentError} If a value is missing or invalid, or there
+ * are more values than arguments.
+ */
+export function validateArguments(
+  engine: Engine,
+  key: string,
+  args: ActionArguments,
+  values: readonly unknown[],
+): unknown[] {
+  if (values.length > args.length) {
+    throw new ActionArgumentError(
+      key,
+      undefined,
+      args.length,
+      values[args.length],
+      CheckResult.NoArgs,
+      `Action ${key} takes ${args.length} argument(s), but got ${values.length}.`,
+    );
+  }
+
+  return args.map((argument, index) => {
+    const descriptor = typeof argument === "string"
+      ? { type: "unknown" as const, name: argument }
+      : argument;
+    const { name, type } = descriptor;
+    const value = values[index] ?? descriptor.value;
+
+    if (value === undefined) {
+      if (descriptor.optional) {
+        return undefined;
+      }
+
+      throw new ActionArgumentError(
+        key,
+        name,
+        index,
+        value,
+        CheckResult.NoArg,
+        `Argument ${name} of action ${key} is missing.`,
+      );
+    }
+
+    const parsed = parseArgument(engine, descriptor, value);
+
+    if (parsed === undefined) {
+      throw new ActionArgumentError(
+        key,
+        name,
+        index,
+        value,
+        CheckResult.InvalidArg,
+        `Argument ${name} of action ${key} must be ${describe(descriptor)}.`,
+      );
+    }
+
+    return parsed;
+  });
+}
+
+/**
+ * Parse the value of an argument.
+ * @returns The parsed value, or undefined if it is invalid.
+ */
+function parseArgument(
+  engine: Engine,
+  { type, values }: ActionArgumentDescriptor,
+  value: unknown,
+): unknown {
+  switch (type) {
+    case "string":
+      return typeof value === "string" ? value : undefined;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? value
+        : undefined;
+    case "integer":
+      return Number.isInteger(value) ? value : undefined;
+    case "boolean":
+      return typeof value === "boolean" ? value : undefined;
+    case "vector":
+      return toVector(value);
+    case "entity": {
+      const id = typeof value === "object" && value !== null
+        ? (value as { id?: unknown }).id
+        : value;
+
+      return typeof id === "string" ? engine.getEntity(id) : undefined;
+    }
+    case "enum":
+      return typeof value === "string" && values?.includes(value)
+        ? value
+        : undefined;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Describe the values that an argument accepts, for error messages.
+ */
+function describe({ type, values }: ActionArgumentDescriptor): string {
+  switch (type) {
+    case "integer":
+      return "an integer";
+    case "vector":
+      return "a vector, such as { x, y, z }";
+    case "entity":
+      return "an existing entity or its ID";
+    case "enum":
+      return `one of ${(values ?? []).join(", ")}`;
+    default:
+      return `a ${type}`;
+  }
+}
+
+/**
+ * Convert a value to a vector. Vectors can be given as vectors, objects with
+ * `x`, `y` and `z`, or arrays.
+ */
+function toVector(value: unknown): Vector3D | undefined {
+  const isFinite = (item: unknown) =>
+    typeof item === "number" && Number.isFinite(item);
+
+  if (value instanceof Vector3D) {
+    return value;
+  } else if (
+    Array.isArray(value) && value.length === 3 && value.every(isFinite)
+  ) {
+    return Vector3D.fromArray(value as [number, number, number]);
+  } else if (
+    typeof value === "object" && value !== null &&
+    ["x", "y", "z"].every((axis) =>
+      isFinite((value as Record<string, unknown>)[axis])
+    )
+  ) {
+    return Vector3D.fromObject(value as { x: number; y: number; z: number });
+  }
+
+  return undefined;
+}
 
 /**
  * An action that can be performed by an entity.
@@ -97,8 +468,85 @@ export interface Action<
   fuelTimeMultiplier?: number;
   /** The arguments required to perform the action. */
   args: Args;
+  /** The distance that the action covers, for the distance multiplier. */
+  distance?: number;
+  /** The number of frames that the action takes, for the time multiplier. */
+  duration?: number;
+  /**
+   * Performs the action. Actions without it can be checked, but not performed.
+   * @returns The result of the action, which is passed back to the script.
+   */
+  execute?: () => unknown;
+  /**
+   * The number of frames before the entity can perform an action with the
+   * same key again, from when the action is performed or its channel
+   * completes.
+   */
+  cooldown?: number;
+  /**
+   * The number of frames that the entity channels the action before it is
+   * performed. While the entity channels, the conditions in `interrupts` can
+   * interrupt the action.
+   */
+  channel?: number;
+  /** The conditions that interrupt the channel of the action. */
+  interrupts?: InterruptCondition[];
 }
 
+/**
+ * A condition that interrupts the channel of an action.
+ */
+export enum InterruptCondition {
+  /** The entity takes damage. */
+  Damage = "DAMAGE",
+  /** The entity moves. */
+  Move = "MOVE",
+  /** The entity performs another action. */
+  Action = "ACTION",
+}
+
+/**
+ * An action that an entity is channeling.
+ */
+export interface Channel {
+  /** The action that is channeled. */
+  action: Action;
+  /** The frame that the channel started on. */
+  startedAt: number;
+  /** The frame that the action is performed on. */
+  endsAt: number;
+}
+
+/**
+ * The state of a channel, with what the handler needs to interrupt it.
+ */
+interface ChannelState extends Channel {
+  entity: Entity;
+  location: Vector3D;
+  removeTrigger?: Removetrigger;
+}
+
+/**
+ * Creates, checks and performs the actions of the entities. The handler keeps
+ * the cooldowns and channels of the entities: add its system to the engine to
+ * complete the channels, and to interrupt them when the entities move.
+ *
+ * @emits completed On the entity, with the key and the value of the action,
+ * when a channel completes.
+ * @emits failed On the entity, with the key of the action and the error
+ * message, when the action of a completed channel throws.
+ * @emits interrupted On the entity, with the key of the action and the
+ * condition, when a channel is interrupted.
+ *
+ * ```ts
+ * const handler = new ActionHandler(engine, actions);
+ * engine.addSystem(handler.system);
+ *
+ * if (handler.check("move", entity, fuel, [10, 0, 10]) === CheckResult.Ok) {
+ *   handler.perform(entity, handler.create("move", entity, [10, 0, 10])!);
+ * }
+ * ```
+ */
 export class ActionHandler<
   Actions extends Record<string, Action> = Record<string, Action>,
 > {
@@ -107,6 +555,10 @@ export class ActionHandler<
 
   /** The action creators. */
   readonly #creators: Partial<ActionCreators<Actions>>;
+  /** The frames that the cooldowns end on, by entity ID and action key. */
+  #cooldowns: Map<string, Map<string, number>> = new Map();
+  /** The channels, by entity ID. */
+  #channels: Map<string, ChannelState> = new Map();
 
   constructor(engine: Engine, creators: ActionCreators<Actions>) {
     this.engine = engine;
@@ -117,6 +569,77 @@ export class ActionHandler<
     return this.#creators as DeepReadonly<ActionCreators<Actions>>;
   }
 
+  /**
+   * The system that completes the channels, and interrupts the channels of
+   * entities that moved. Channels of removed entities are dropped.
+   */
+  readonly system: System = () => {
+    const { time } = this.engine;
+
+    for (const state of [...this.#channels.values()]) {
+      const { entity, action, location } = state;
+
+      if (!this.engine.entities.has(entity)) {
+        this.#endChannel(state);
+      } else if (
+        action.interrupts?.includes(InterruptCondition.Move) &&
+        entity.location.toString() !== location.toString()
+      ) {
+        this.interrupt(entity, InterruptCondition.Move);
+      } else if (time >= state.endsAt) {
+        this.#endChannel(state);
+
+        try {
+          const value = this.#execute(entity, action);
+          entity.addEvent("completed", action.key, value);
+        } catch (error) {
+          entity.addEvent(
+            "failed",
+            action.key,
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+      }
+    }
+  };
+
+  /**
+   * The number of frames until an entity can perform an action again.
+   * @param entity The entity.
+   * @param key The key of the action.
+   * @returns The number of frames, or 0 if the action is not on cooldown.
+   */
+  cooldown<Key extends keyof Actions>(entity: Entity, key: Key): number {
+    const readyAt = this.#cooldowns.get(entity.id)?.get(String(key));
+    return readyAt === undefined ? 0 : Math.max(0, readyAt - this.engine.time);
+  }
+
+  /**
+   * Resets the cooldown of an action, or of all actions, of an entity.
+   * @param entity The entity.
+   * @param key The key of the action.
+   */
+  resetCooldown<Key extends keyof Actions>(entity: Entity, key?: Key): void {
+    if (key === undefined) {
+      this.#cooldowns.delete(entity.id);
+    } else {
+      this.#cooldowns.get(entity.id)?.delete(String(key));
+    }
+  }
+
+  /**
+   * The action that an entity is channeling, if any.
+   * @param entity The entity.
+   */
+  channel(entity: Entity): Readonly<Channel> | undefined {
+    const state = this.#channels.get(entity.id);
+    return state && {
+      action: state.action,
+      startedAt: state.startedAt,
+      endsAt: state.endsAt,
+    };
+  }
+
   /**
    * Adds action creators to the action handler.
    * @param creators The action creators to add.
@@ -134,36 +657,210 @@ export class ActionHandler<
   }
 
   /**
-   * Checks if an entity can perform an action.
+   * Validates the values of the arguments of an action against its creator,
+   * and applies their defaults.
+   * @param key The key of the action.
+   * @param args The values of the arguments.
+   * @returns The validated values.
+   * @throws {ActionArgumentError} If a value is missing or invalid.
+   */
+  parse<Key extends keyof Actions>(
+    key: Key,
+    ...args: readonly unknown[]
+  ): unknown[] {
+    const creator = this.#creators[key];
+
+    return creator?.args
+      ? validateArguments(this.engine, String(key), creator.args, args)
+      : [...args];
+  }
+
+  /**
+   * Creates an action for an entity.
+   * @param key The key of the action.
+   * @param entity The entity to perform the action.
+   * @param args The arguments to perform the action.
+   * @returns The action, or undefined if the entity cannot perform it.
+   * @throws {ActionArgumentError} If an argument is missing or invalid.
+   */
+  create<Key extends keyof Actions>(
+    key: Key,
+    entity: Entity,
+    ...args: readonly unknown[]
+  ): Action | undefined {
+    const creator = this.#creators[key] as ActionCreator | undefined;
+    return creator?.(this.engine, entity, ...this.parse(key, ...args));
+  }
+
+  /**
+   * Calculates the fuel cost of an action, including its distance and time
+   * multipliers.
+   * @param action The action to calculate the cost of.
+   * @returns The fuel cost of the action.
+   */
+  cost(action: Action): number {
+    return action.fuel +
+      (action.distance ?? 0) * (action.fuelDistanceMultiplier ?? 0) +
+      (action.duration ?? 0) * (action.fuelTimeMultiplier ?? 0);
+  }
+
+  /**
+   * Validates an action for an entity: its arguments, whether the entity can
+   * perform it, and whether the entity has enough fuel.
    * @param key The key of the action to perform.
    * @param entity The entity to perform the action.
    * @param remainingFuel The remaining fuel of the entity.
    * @param args The arguments to perform the action.
-   * @returns The result of the check.
+   * @returns The result of the check, the action if it can be performed, and
+   * the error if an argument is invalid.
    */
-  check<Key extends keyof Actions>(
+  validate<Key extends keyof Actions>(
     key: Key,
     entity: Entity,
     remainingFuel: number,
-    ...args: Actions[Key]["args"]
-  ): CheckResult {
-    const action = this.#creators[key]?.(this.engine, entity, ...args);
+    ...args: readonly unknown[]
+  ): ActionValidation {
+    if (!this.#creators[key]) {
+      return { status: CheckResult.NoAction };
+    } else if (this.cooldown(entity, key) > 0) {
+      return { status: CheckResult.OnCooldown };
+    }
 
-    if (!action) {
-      return CheckResult.NoAction;
-    } else if (action.fuel > remainingFuel) {
-      return CheckResult.NoFuel;
-    } else if (args.length && !action.args.length) {
-      return CheckResult.NoArgs;
-    } else {
-      // If the action has arguments, then check if the arguments are provided.
-      if (args.length < action.args.length) {
-        return CheckResult.NoArg;
+    let action: Action | undefined;
+
+    try {
+      action = this.create(key, entity, ...args);
+    } catch (error) {
+      if (error instanceof ActionArgumentError) {
+        return { status: error.result, error };
       }
+
+      throw error;
+    }
+
+    if (!action) {
+      return { status: CheckResult.NoAction };
+    } else if (this.cost(action) > remainingFuel) {
+      return { status: CheckResult.NoFuel, action };
     }
 
-    return CheckResult.Ok;
+    return { status: CheckResult.Ok, action };
   }
+
+  /**
+   * Performs an action that passed the check. Actions with a channel start
+   * channeling, and are performed by the system once the channel completes;
+   * they interrupt the current channel of the entity. Other actions are
+   * performed at once, and interrupt the current channel if it can be
+   * interrupted by actions.
+   * @param entity The entity that performs the action.
+   * @param action The action to perform.
+   * @returns The value of the action, or the frame that the channel ends on.
+   */
+  perform(entity: Entity, action: Action): unknown {
+    const current = this.#channels.get(entity.id);
+
+    if (
+      current &&
+      (action.channel || current.action.interrupts?.includes(
+        InterruptCondition.Action,
+      ))
+    ) {
+      this.interrupt(entity, InterruptCondition.Action);
+    }
+
+    if (!action.channel) {
+      return this.#execute(entity, action);
+    }
+
+    const state: ChannelState = {
+      action,
+      entity,
+      startedAt: this.engine.time,
+      endsAt: this.engine.time + action.channel,
+      location: entity.location.copy(),
+    };
+
+    if (action.interrupts?.includes(InterruptCondition.Damage)) {
+      state.removeTrigger = entity.addTrigger(
+        "damage",
+        (dealt: unknown) => {
+          if (typeof dealt === "number" && dealt > 0) {
+            this.interrupt(entity, InterruptCondition.Damage);
+          }
+        },
+      );
+    }
+
+    this.#channels.set(entity.id, state);
+    return { channel: state.endsAt };
+  }
+
+  /**
+   * Interrupts the channel of an entity. The action is not performed, and its
+   * cooldown does not start.
+   * @param entity The entity.
+   * @param condition The condition that interrupted the channel.
+   * @returns Whether a channel was interrupted.
+   */
+  interrupt(entity: Entity, condition: InterruptCondition): boolean {
+    const state = this.#channels.get(entity.id);
+
+    if (!state) {
+      return false;
+    }
+
+    this.#endChannel(state);
+    entity.addEvent("interrupted", state.action.key, condition);
+    return true;
+  }
+
+  /**
+   * Executes an action and starts its cooldown.
+   */
+  #execute(entity: Entity, { key, cooldown, execute }: Action): unknown {
+    if (cooldown) {
+      const cooldowns = this.#cooldowns.get(entity.id) ?? new Map();
+      cooldowns.set(key, this.engine.time + cooldown);
+      this.#cooldowns.set(entity.id, cooldowns);
+    }
+
+    return execute?.();
+  }
+
+  #endChannel({ entity, removeTrigger }: ChannelState): void {
+    removeTrigger?.();
+    this.#channels.delete(entity.id);
+  }
+
+  /**
+   * Checks if an entity can perform an action.
+   * @param key The key of the action to perform.
+   * @param entity The entity to perform the action.
+   * @param remainingFuel The remaining fuel of the entity.
+   * @param args The arguments to perform the action.
+   * @returns The result of the check.
+   */
+  check<Key extends keyof Actions>(
+    key: Key,
+    entity: Entity,
+    remainingFuel: number,
+    ...args: readonly unknown[]
+  ): CheckResult {
+    return this.validate(key, entity, remainingFuel, ...args).status;
+  }
+}
+
+/**
+ * The result of validating an action.
+ */
+export interface ActionValidation {
+  /** The result of the check. */
+  status: CheckResult;
+  /** The action, if it could be created. */
+  action?: Action;
+  /** The error in the arguments, if any. */
+  error?: ActionArgumentError;
 }
 
 /**
@@ -180,4 +877,10 @@ export enum CheckResult {
   NoArgs = "NO_ARGS",
   /** The action cannot be performed because the entity does not have a specific argument. */
   NoArg = "NO_ARG",
+  /** The action cannot be performed because an argument has the wrong type or value. */
+  InvalidArg = "INVALID_ARG",
+  /** The action cannot be performed because it is on cooldown. */
+  OnCooldown = "ON_COOLDOWN",
+  /** The action was performed, but failed. */
+  Failed = "FAILED",
 }
@@ -1,6 +1,12 @@
 import { Engine } from "../engine.js";
 import { Entity } from "../entity.js";
 import { Removetrigger, TriggerListener, Triggers } from "../loop.js";
+import {
+  type Orientation3DObject,
+  Vector2D,
+  Vector3D,
+  type Vector3DObject,
+} from "./movement.js";
 
 /**
  * The game engine as made available in Lua. This is a subset of the engine
@@ -29,6 +35,13 @@ export class GameEntity {
     this.#entity = entity;
   }
 
+  /**
+   * The ID of the entity.
+   */
+  get id(): string {
+    return this.#entity.id;
+  }
+
   /**
    * If set, the entity will sleep until the given time. It will not be updated
    * until that time. This is useful for delaying the execution of a loop.
@@ -36,6 +49,183 @@ export class GameEntity {
   get sleepUntil(): number | undefined {
     return this.#entity.sleepUntil;
   }
+
+  /**
+   * The location of the entity, as a `{ x, y, z }` table. The location is
+   * read-only; it changes through movement.
+   */
+  get location(): Readonly<Vector3DObject> {
+    return Object.freeze(this.#entity.location.toObject());
+  }
+
+  /**
+   * The orientation of the entity, as a `{ pitch, yaw, roll }` table, in
+   * radians. The orientation is read-only; it changes through movement.
+   */
+  get orientation(): Readonly<Orientation3DObject> {
+    return Object.freeze(this.#entity.orientation.toObject());
+  }
+
+  /**
+   * The effective attributes of the entity, by name. The attributes are
+   * read-only; they change through actions.
+   */
+  get attributes(): Readonly<Record<string, number>> {
+    const attributes: Record<string, number> = {};
+
+    for (const { name } of this.#entity.attributes) {
+      attributes[name] = this.#entity.attributes.get(name)!.value;
+    }
+
+    return Object.freeze(attributes);
+  }
+
+  /**
+   * The names of the attributes that changed so far this frame, such as
+   * those whose modifiers expired.
+   */
+  get changedAttributes(): readonly string[] {
+    return Object.freeze([...this.#entity.attributes.changed]);
+  }
+}
+
+/**
+ * The vector math functions as made available in Lua, as the `vector` global.
+ * Vectors are tables with `x`, `y` and optionally `z` fields, or sequences of
+ * 2 or 3 numbers. Tables without `z` are 2D vectors on the ground plane; when
+ * a 2D vector meets a 3D vector, it is lifted to a z of 0.
+ *
+ * @example
+ *
+ * Lua example:
+ *
+ * ```lua
+ * local heading = vector.normalize(vector.subtract(target, position))
+ * local step = vector.scale(heading, Entity.attributes.speed)
+ * print(vector.length(step), vector.distance(position, target))
+ * ```
+ */
+export const vectorLibrary = {
+  new: (x: unknown, y: unknown, z?: unknown) =>
+    toVector(z === undefined ? [x, y] : [x, y, z]),
+  add: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.add(b), (a, b) => a.add(b)),
+  subtract: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.subtract(b), (a, b) => a.subtract(b)),
+  scale: (v: unknown, scalar: unknown) =>
+    unary(
+      v,
+      (v) => v.scale(toNumber(scalar)),
+      (v) => v.scale(toNumber(scalar)),
+    ),
+  interpolate: (a: unknown, b: unknown, t: unknown) =>
+    binary(
+      a,
+      b,
+      (a, b) => a.interpolate(b, toNumber(t)),
+      (a, b) => a.interpolate(b, toNumber(t)),
+    ),
+  negate: (v: unknown) => unary(v, (v) => v.negate(), (v) => v.negate()),
+  length: (v: unknown) => unary(v, (v) => v.length, (v) => v.length),
+  normalize: (v: unknown) =>
+    unary(v, (v) => v.normalize(), (v) => v.normalize()),
+  dot: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.dot(b), (a, b) => a.dot(b)),
+  cross: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.cross(b), (a, b) => a.cross(b)),
+  distance: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.distanceTo(b), (a, b) => a.distanceTo(b)),
+  project: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.project(b), (a, b) => a.project(b)),
+  clamp: (v: unknown, max: unknown) =>
+    unary(
+      v,
+      (v) => v.clampLength(toNumber(max)),
+      (v) => v.clampLength(toNumber(max)),
+    ),
+  angle: (a: unknown, b: unknown) =>
+    binary(a, b, (a, b) => a.angleTo(b), (a, b) => a.angleTo(b)),
+  rotate: (v: unknown, angle: unknown) => {
+    const vector = toVector(v);
+
+    if (vector instanceof Vector3D) {
+      throw new TypeError("Only 2D vectors can be rotated.");
+    }
+
+    return vector.rotate(toNumber(angle));
+  },
+};
+
+/**
+ * Converts a value from Lua to a vector.
+ * @throws {TypeError} If the value is not a vector.
+ */
+function toVector(value: unknown): Vector2D | Vector3D {
+  const components = Array.isArray(value)
+    ? value
+    : typeof value === "object" && value !== null
+    ? "z" in value
+      ? [(value as Vector3D).x, (value as Vector3D).y, value.z]
+      : [(value as Vector2D).x, (value as Vector2D).y]
+    : [];
+
+  if (
+    (components.length !== 2 && components.length !== 3) ||
+    !components.every((component) => Number.isFinite(component))
+  ) {
+    throw new TypeError("Expected a vector.");
+  }
+
+  return components.length === 2
+    ? new Vector2D(components as [number, number])
+    : new Vector3D(components as [number, number, number]);
+}
+
+/**
+ * Converts a value from Lua to a number.
+ * @throws {TypeError} If the value is not a number.
+ */
+function toNumber(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new TypeError("Expected a number.");
+  }
+
+  return value;
+}
+
+/**
+ * Applies a vector function to a 2D or 3D vector.
+ */
+function unary<Three, Two>(
+  value: unknown,
+  three: (vector: Vector3D) => Three,
+  two: (vector: Vector2D) => Two,
+): Three | Two {
+  const vector = toVector(value);
+  return vector instanceof Vector3D ? three(vector) : two(vector);
+}
+
+/**
+ * Applies a vector function to two vectors, lifting a 2D vector to 3D if the
+ * other is 3D.
+ */
+function binary<Three, Two>(
+  a: unknown,
+  b: unknown,
+  three: (a: Vector3D, b: Vector3D) => Three,
+  two: (a: Vector2D, b: Vector2D) => Two,
+): Three | Two {
+  const first = toVector(a);
+  const second = toVector(b);
+
+  if (first instanceof Vector2D && second instanceof Vector2D) {
+    return two(first, second);
+  }
+
+  return three(
+    first instanceof Vector2D ? first.toVector3D() : first,
+    second instanceof Vector2D ? second.toVector3D() : second,
+  );
 }
 
 /**
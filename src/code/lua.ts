@@ -0,0 +1,1083 @@
+import {
+  lauxlib,
+  lua,
+  type LuaJSFunction,
+  type LuaBuffer,
+  type LuaKFunction,
+  type LuaState,
+  lualib,
+  to_jsstring,
+  to_luastring,
+} from "fengari";
+import type { Engine } from "../engine.js";
+import { Entity } from "../entity.js";
+import { FuelMeter } from "../fuel.js";
+import type { Loop, RemoveLoop, Triggers } from "../loop.js";
+import type { ActionQueue } from "../queue.js";
+import { createOn, GameEngine, GameEntity, vectorLibrary } from "./c.js";
+import { Orientation3D, Vector2D, Vector3D } from "./movement.js";
+
+/**
+ * An error that occurred while loading or running a Lua script.
+ */
+export class LuaError extends AggregateError {
+  /** The Lua stack traceback of the error, if any. */
+  readonly traceback?: string;
+
+  constructor(message: string, traceback?: string, errors: unknown[] = []) {
+    super(errors, message);
+    this.traceback = traceback;
+  }
+}
+
+/**
+ * The standard libraries that are available to scripts. The `io`, `os`,
+ * `debug` and `package` libraries are never opened.
+ */
+const libraries: [name: string, open: LuaJSFunction][] = [
+  ["_G", lualib.luaopen_base],
+  [lualib.LUA_COLIBNAME, lualib.luaopen_coroutine],
+  [lualib.LUA_TABLIBNAME, lualib.luaopen_table],
+  [lualib.LUA_STRLIBNAME, lualib.luaopen_string],
+  [lualib.LUA_MATHLIBNAME, lualib.luaopen_math],
+  [lualib.LUA_UTF8LIBNAME, lualib.luaopen_utf8],
+];
+
+/**
+ * The libraries that must not be available to scripts, because they give
+ * access to the host.
+ */
+export const LUA_FORBIDDEN_LIBRARIES = ["io", "os", "debug", "package"];
+
+/**
+ * The functions of the base library that are removed, because they load code
+ * from the host or bypass the sandbox.
+ */
+const removedGlobals = [
+  "dofile",
+  "loadfile",
+  "load",
+  "require",
+  "collectgarbage",
+];
+
+/** The maximum depth of the values that are passed between Lua and the host. */
+const maxDepth = 32;
+
+/** The default number of VM instructions per `vm.instructions` charge. */
+export const DEFAULT_INSTRUCTION_INTERVAL = 100;
+
+/** The default maximum length of the strings that scripts build, in bytes. */
+export const DEFAULT_MAX_STRING_LENGTH = 1 << 20;
+
+/** The Lua 5.3 opcode of `..`, which concatenates registers B to C. */
+const OP_CONCAT = 29;
+
+/** The most bytes that a number takes up when it is concatenated. */
+const maxNumberLength = 32;
+
+/**
+ * The parts of a fengari state that the sandbox reads, since the Lua API has
+ * no way to see the instruction that is about to run, or to tell which VM a
+ * thread belongs to.
+ */
+interface VMState {
+  /** The global state, which the threads of a VM share. */
+  l_G: object;
+  ci: {
+    l_base: number;
+    l_code: { opcode: number; B: number; C: number }[];
+    l_savedpc: number;
+  };
+  stack: {
+    ttisstring(): boolean;
+    ttisnumber(): boolean;
+    vslen(): number;
+  }[];
+}
+
+/** The maximum string length of the VMs of the sandboxes, by global state. */
+const stringLimits: WeakMap<object, number> = new WeakMap();
+
+/** The lengths of the content of the string buffers. */
+const bufferLengths: WeakMap<LuaBuffer, number> = new WeakMap();
+
+// The standard library builds its strings in buffers, such as `string.gsub`,
+// `string.format` and `table.concat`. Every change to the length of their
+// content goes through this accessor, so that a buffer of a sandbox raises an
+// error as soon as it grows past the maximum string length. Buffers double
+// their storage as they grow, so they never hold much more than that.
+Object.defineProperty(lauxlib.luaL_Buffer.prototype, "n", {
+  get(this: LuaBuffer): number {
+    return bufferLengths.get(this) ?? 0;
+  },
+  set(this: LuaBuffer, length: number): void {
+    const max = this.L
+      ? stringLimits.get((this.L as unknown as VMState).l_G)
+      : undefined;
+
+    if (max !== undefined && length > max) {
+      raise(this.L!, "resulting string too large");
+    }
+
+    bufferLengths.set(this, length);
+  },
+});
+
+/**
+ * The traceback message handler of protected calls.
+ */
+const traceback: LuaJSFunction = (L) => {
+  const message = lua.lua_type(L, 1) === lua.LUA_TSTRING
+    ? lua.lua_tojsstring(L, 1)
+    : to_jsstring(lauxlib.luaL_tolstring(L, 1));
+  lauxlib.luaL_traceback(L, L, to_luastring(message), 1);
+  return 1;
+};
+
+export interface LuaSandboxOptions {
+  /** The engine that runs the entity. */
+  engine: Engine;
+  /** The entity that the script controls. */
+  entity: Entity;
+  /** The source code of the script. */
+  script: string;
+  /** The name of the script in error messages. Defaults to the entity ID. */
+  name?: string;
+  /**
+   * The fuel meter of the entity. Defaults to the meter of the entity in the
+   * action queue, if any, or to a meter with the default budget.
+   */
+  fuel?: FuelMeter;
+  /**
+   * The action queue that the script submits its actions to. Without it, the
+   * script cannot act.
+   */
+  actions?: ActionQueue;
+  /**
+   * The number of VM instructions per `vm.instructions` charge. Defaults to
+   * `DEFAULT_INSTRUCTION_INTERVAL`.
+   */
+  instructionInterval?: number;
+  /**
+   * The maximum length of the strings that the script builds with `..` and
+   * the standard library, in bytes. Defaults to
+   * `DEFAULT_MAX_STRING_LENGTH`.
+   */
+  maxStringLength?: number;
+}
+
+/**
+ * A sandboxed Lua 5.3 VM that runs the script of an entity. Every entity has
+ * its own VM, so that scripts cannot see or change each other's state.
+ *
+ * The script can use the `coroutine`, `table`, `string`, `math` and `utf8`
+ * libraries. It gets the `Engine` and `Entity` globals, which are read-only
+ * views of the game, the `on` global to listen for triggers, and the `vector`
+ * global with vector math on `{ x, y, z }` tables. If the
+ * script defines a global `loop` function, it is added as a loop of the entity
+ * and called every frame. With an action queue, the script also gets the `act`
+ * global, which submits an action and returns its ID; the result arrives as
+ * the `action` trigger.
+ *
+ * Scripts are metered by the fuel meter of the entity: every call to the host
+ * is charged as `api.<name>`, and every interval of VM instructions as
+ * `vm.instructions`. When the fuel runs out, the loop is suspended where it
+ * stopped and resumes in the next frame, and triggers are cut short. Since
+ * instructions are counted, preemption is deterministic. The loop can also
+ * call `coroutine.yield()` to wait for the next frame.
+ *
+ * Strings are capped at the maximum string length: `..` and the functions of
+ * the standard library, such as `string.gsub` and `table.concat`, raise an
+ * error instead of building a longer string. Lua
+ * functions that are passed to the host are only held for the duration of
+ * the call, except the listeners of `on`, which are released when their
+ * trigger is removed.
+ *
+ * @emits print When the script prints, with the printed line as detail.
+ * @emits preempted When the script is preempted because it ran out of fuel.
+ *
+ * ```ts
+ * const sandbox = new LuaSandbox({
+ *   engine,
+ *   entity,
+ *   script: `
+ *     on("hit", function (other)
+ *       print("hit by", other.id)
+ *     end)
+ *
+ *     on("action", function (result)
+ *       print("action", result.id, result.status)
+ *     end)
+ *
+ *     function loop()
+ *       print(Engine.time, Entity.attributes.health)
+ *       act("move", { x = 10, y = 0, z = 10 })
+ *     end
+ *   `,
+ * });
+ *
+ * sandbox.load();
+ * ```
+ */
+export class LuaSandbox extends EventTarget {
+  /** The engine that runs the entity. */
+  readonly engine: Engine;
+  /** The entity that the script controls. */
+  readonly entity: Entity;
+  /** The name of the script in error messages. */
+  readonly name: string;
+  /** The fuel meter of the entity. */
+  readonly fuel: FuelMeter;
+  /** The action queue that the script submits its actions to. */
+  readonly actions?: ActionQueue;
+  /** The number of VM instructions per `vm.instructions` charge. */
+  readonly instructionInterval: number;
+  /** The maximum length of the strings that the script builds, in bytes. */
+  readonly maxStringLength: number;
+
+  /** The state of the VM. */
+  #L: LuaState;
+  /** The thread that runs the loop function. */
+  #thread?: LuaState;
+  /** The registry reference to the thread. */
+  #threadRef?: number;
+  /** The source code of the script. */
+  #script: string;
+  /** The registry references to the Lua functions held by the host. */
+  #refs: Set<number> = new Set();
+  /** The registry references of the host functions that call Lua. */
+  #functions: WeakMap<(...args: unknown[]) => unknown, number> = new WeakMap();
+  /** The references to release when the current host call returns. */
+  #borrowed: number[] = [];
+  /** The VM instructions left until the next `vm.instructions` charge. */
+  #countdown: number;
+  /** Removes the triggers that the script added. */
+  #removers: Set<() => void> = new Set();
+  /** Removes the loop of the script from the entity. */
+  #removeLoop?: RemoveLoop;
+  #loaded = false;
+  #closed = false;
+
+  constructor({
+    engine,
+    entity,
+    script,
+    name = entity.id,
+    actions,
+    fuel = actions?.meter(entity) ?? new FuelMeter(),
+    instructionInterval = DEFAULT_INSTRUCTION_INTERVAL,
+    maxStringLength = DEFAULT_MAX_STRING_LENGTH,
+  }: LuaSandboxOptions) {
+    super();
+    this.engine = engine;
+    this.entity = entity;
+    this.name = name;
+    this.fuel = fuel;
+    this.actions = actions;
+    this.instructionInterval = instructionInterval;
+    this.maxStringLength = maxStringLength;
+    this.#countdown = instructionInterval;
+    this.#script = script;
+    this.#L = lauxlib.luaL_newstate();
+
+    this.#openLibraries();
+    this.#limitStrings();
+    this.#setGlobals();
+
+    // The hook runs before every instruction, to check concatenations.
+    // Threads inherit the hook of the state they are created from.
+    lua.lua_sethook(this.#L, this.#hook, lua.LUA_MASKCOUNT, 1);
+  }
+
+  /**
+   * Whether the script has been loaded.
+   */
+  get loaded(): boolean {
+    return this.#loaded;
+  }
+
+  /**
+   * Whether the sandbox has been closed.
+   */
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  /**
+   * Whether the loop is suspended until the next frame.
+   */
+  get suspended(): boolean {
+    return this.#thread !== undefined &&
+      lua.lua_status(this.#thread) === lua.LUA_YIELD;
+  }
+
+  /**
+   * Loads and runs the script, and adds its `loop` function as a loop of the
+   * entity. Only source code is loaded; precompiled chunks are rejected. The
+   * script is charged to the fuel of the current frame.
+   * @throws {LuaError} If the script fails to compile, to run, or runs out of
+   * fuel.
+   */
+  load(): LuaSandbox {
+    if (this.#closed) {
+      throw new Error(`Sandbox ${this.name} is closed.`);
+    } else if (this.#loaded) {
+      throw new Error(`Sandbox ${this.name} is already loaded.`);
+    }
+
+    const L = this.#L;
+    const code = to_luastring(this.#script);
+    const status = lauxlib.luaL_loadbufferx(
+      L,
+      code,
+      code.length,
+      to_luastring(`=${this.name}`),
+      to_luastring("t"),
+    );
+
+    if (status !== lua.LUA_OK) {
+      throw this.#error();
+    }
+
+    this.fuel.refuel(this.engine.time);
+
+    if (!this.#call(0, 0)) {
+      throw new LuaError(`${this.name} ran out of fuel while loading.`);
+    }
+
+    this.#loaded = true;
+
+    lua.lua_getglobal(L, to_luastring("loop"));
+
+    if (!lua.lua_isfunction(L, -1)) {
+      lua.lua_pop(L, 1);
+      return this;
+    }
+
+    const ref = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+    const loop: Loop = () => this.#resume(ref);
+
+    this.#refs.add(ref);
+    this.#removeLoop = this.entity.addLoop(loop);
+    return this;
+  }
+
+  /**
+   * Closes the sandbox. The loop and triggers of the script are removed from
+   * the entity, and the VM is closed.
+   */
+  close(): void {
+    if (this.#closed) {
+      return;
+    }
+
+    this.#removeLoop?.();
+
+    for (const remove of this.#removers) {
+      remove();
+    }
+
+    for (const ref of this.#refs) {
+      lauxlib.luaL_unref(this.#L, lua.LUA_REGISTRYINDEX, ref);
+    }
+
+    this.#removers.clear();
+    this.#refs.clear();
+    this.#thread = undefined;
+    this.#threadRef = undefined;
+    this.#closed = true;
+    lua.lua_close(this.#L);
+  }
+
+  #openLibraries(): void {
+    const L = this.#L;
+
+    for (const [name, open] of libraries) {
+      lauxlib.luaL_requiref(L, to_luastring(name), open, true);
+      lua.lua_pop(L, 1);
+    }
+
+    for (const name of removedGlobals) {
+      lua.lua_pushnil(L);
+      lua.lua_setglobal(L, to_luastring(name));
+    }
+
+    // Without string.dump, scripts cannot produce bytecode.
+    lua.lua_getglobal(L, to_luastring("string"));
+    lua.lua_pushnil(L);
+    lua.lua_setfield(L, -2, to_luastring("dump"));
+    lua.lua_pop(L, 1);
+
+    for (const name of LUA_FORBIDDEN_LIBRARIES) {
+      lua.lua_getglobal(L, to_luastring(name));
+      const available = !lua.lua_isnil(L, -1);
+      lua.lua_pop(L, 1);
+
+      if (available) {
+        throw new LuaError(`The ${name} library must not be available.`);
+      }
+    }
+  }
+
+  /**
+   * Caps the strings that the standard library builds at the maximum length.
+   * `string.rep` sizes its buffer before it fills it, so it is checked before
+   * it runs.
+   */
+  #limitStrings(): void {
+    const L = this.#L;
+    const max = this.maxStringLength;
+
+    stringLimits.set((L as unknown as VMState).l_G, max);
+
+    const rep: LuaJSFunction = (L) => {
+      const length = lauxlib.luaL_checklstring(L, 1).length;
+      const count = lauxlib.luaL_checkinteger(L, 2);
+      const separator = lauxlib.luaL_optlstring(L, 3, to_luastring("")).length;
+
+      if (count > 0 && length * count + separator * (count - 1) > max) {
+        return raise(L, "resulting string too large");
+      }
+
+      // The original function builds the string.
+      lua.lua_pushvalue(L, lua.lua_upvalueindex(1));
+      lua.lua_insert(L, 1);
+      lua.lua_call(L, lua.lua_gettop(L) - 1, 1);
+      return 1;
+    };
+
+    lua.lua_getglobal(L, to_luastring("string"));
+    lua.lua_getfield(L, -1, to_luastring("rep"));
+    lua.lua_pushjsclosure(L, rep, 1);
+    lua.lua_setfield(L, -2, to_luastring("rep"));
+    lua.lua_pop(L, 1);
+  }
+
+  #setGlobals(): void {
+    const L = this.#L;
+    const on = createOn(this.entity);
+
+    const print: LuaJSFunction = (L) => {
+      let paid: boolean;
+
+      try {
+        paid = this.fuel.charge("api.print");
+      } catch (error) {
+        return raise(L, error);
+      }
+
+      if (!paid) {
+        return this.#preempt(L, print);
+      }
+
+      const parts: string[] = [];
+
+      for (let i = 1; i <= lua.lua_gettop(L); i += 1) {
+        parts.push(to_jsstring(lauxlib.luaL_tolstring(L, i)));
+        lua.lua_pop(L, 1);
+      }
+
+      this.dispatchEvent(
+        new CustomEvent("print", { detail: parts.join("\t") }),
+      );
+      return 0;
+    };
+
+    lua.lua_pushjsfunction(L, print);
+    lua.lua_setglobal(L, to_luastring("print"));
+
+    this.#push(L, new GameEngine(this.engine));
+    lua.lua_setglobal(L, to_luastring("Engine"));
+    this.#push(L, new GameEntity(this.entity));
+    lua.lua_setglobal(L, to_luastring("Entity"));
+
+    this.#push(L, (trigger: unknown, listener: unknown) => {
+      if (typeof trigger !== "string") {
+        throw new TypeError("The trigger must be a string.");
+      } else if (typeof listener !== "function") {
+        throw new TypeError("The listener must be a function.");
+      }
+
+      const ref = this.#retain(listener as () => void);
+      const remove = on(trigger as Triggers, listener as () => void);
+      const removeTrigger = () => {
+        remove();
+        this.#release(ref);
+        this.#removers.delete(removeTrigger);
+      };
+
+      this.#removers.add(removeTrigger);
+      return removeTrigger;
+    }, "on");
+    lua.lua_setglobal(L, to_luastring("on"));
+
+    // Every vector function is charged as `api.vector.<name>`.
+    const vectors = Object.entries(vectorLibrary);
+    lua.lua_createtable(L, 0, vectors.length);
+
+    for (const [name, fn] of vectors) {
+      this.#push(L, fn, `vector.${name}`);
+      lua.lua_setfield(L, -2, to_luastring(name));
+    }
+
+    lua.lua_setglobal(L, to_luastring("vector"));
+
+    const { actions } = this;
+
+    if (actions) {
+      this.#push(L, (key: unknown, ...args: unknown[]) => {
+        if (typeof key !== "string") {
+          throw new TypeError("The action must be a string.");
+        }
+
+        return actions.submit(this.entity, key, ...args);
+      }, "act");
+      lua.lua_setglobal(L, to_luastring("act"));
+    }
+  }
+
+  /**
+   * Raises an error before a concatenation that would build a string longer
+   * than the maximum length. Charges `vm.instructions` for every interval of
+   * instructions, and preempts the script once it runs out of fuel.
+   */
+  #hook = (L: LuaState): void => {
+    const { ci, stack } = L as unknown as VMState;
+    const instruction = ci.l_code[ci.l_savedpc - 1];
+
+    if (instruction.opcode === OP_CONCAT) {
+      let length = 0;
+
+      for (let i = instruction.B; i <= instruction.C; i += 1) {
+        const value = stack[ci.l_base + i];
+
+        if (value.ttisstring()) {
+          length += value.vslen();
+        } else if (value.ttisnumber()) {
+          length += maxNumberLength;
+        }
+      }
+
+      if (length > this.maxStringLength) {
+        raise(L, "resulting string too large", 0);
+        return;
+      }
+    }
+
+    // Once the fuel runs out, every instruction is charged, so that the
+    // script is preempted again until the next frame.
+    if (!this.fuel.exhausted && (this.#countdown -= 1) > 0) {
+      return;
+    }
+
+    this.#countdown = this.instructionInterval;
+    let paid: boolean;
+
+    try {
+      paid = this.fuel.charge("vm.instructions");
+    } catch (error) {
+      raise(L, error);
+      return;
+    }
+
+    if (!paid) {
+      this.#preempt(L);
+    }
+  };
+
+  /**
+   * Preempts the script because it ran out of fuel. On the thread of the loop,
+   * the script is suspended until the next frame, and the continuation, if
+   * any, runs when it resumes. Elsewhere, an error is raised to unwind the
+   * script, and the remaining instructions raise it again, so that the script
+   * cannot catch it and keep running.
+   */
+  #preempt(L: LuaState, continuation?: LuaKFunction): number {
+    if (L === this.#thread && lua.lua_isyieldable(L)) {
+      return continuation
+        ? lua.lua_yieldk(L, 0, 0, continuation)
+        : lua.lua_yield(L, 0);
+    }
+
+    return raise(L, "out of fuel");
+  }
+
+  /**
+   * Runs the loop function on the thread of the loop. A loop that was
+   * suspended resumes where it stopped; otherwise the loop function is called
+   * anew.
+   * @throws {LuaError} If the loop raises an error.
+   */
+  #resume(ref: number): void {
+    const L = this.#L;
+    this.fuel.refuel(this.engine.time);
+
+    if (!this.#thread) {
+      this.#thread = lua.lua_newthread(L);
+      this.#threadRef = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+      this.#refs.add(this.#threadRef);
+    }
+
+    const thread = this.#thread;
+
+    if (lua.lua_status(thread) === lua.LUA_OK) {
+      lua.lua_settop(thread, 0);
+      lua.lua_rawgeti(thread, lua.LUA_REGISTRYINDEX, ref);
+    }
+
+    const status = lua.lua_resume(thread, L, 0);
+
+    if (status === lua.LUA_OK || status === lua.LUA_YIELD) {
+      lua.lua_settop(thread, 0);
+
+      if (status === lua.LUA_YIELD && this.fuel.exhausted) {
+        this.#dispatchPreempted();
+      }
+
+      return;
+    }
+
+    // The thread is dead after an error. The next frame starts a new one.
+    const message = lua.lua_type(thread, -1) === lua.LUA_TSTRING
+      ? lua.lua_tojsstring(thread, -1)
+      : "Unknown error";
+    lauxlib.luaL_traceback(L, thread, null, 0);
+    const trace = lua.lua_tojsstring(L, -1);
+    lua.lua_pop(L, 1);
+
+    lauxlib.luaL_unref(L, lua.LUA_REGISTRYINDEX, this.#threadRef!);
+    this.#refs.delete(this.#threadRef!);
+    this.#thread = undefined;
+    this.#threadRef = undefined;
+
+    if (this.fuel.exhausted) {
+      this.#dispatchPreempted();
+      return;
+    }
+
+    throw new LuaError(message, trace.replace(/^stack traceback:\n/, ""));
+  }
+
+  #dispatchPreempted(): void {
+    this.dispatchEvent(
+      new CustomEvent("preempted", { detail: this.engine.time }),
+    );
+  }
+
+  /**
+   * Calls the function below the arguments on the stack in protected mode,
+   * with a traceback message handler.
+   * @returns Whether the function completed. It does not complete if it runs
+   * out of fuel.
+   * @throws {LuaError} If the function raises an error.
+   */
+  #call(nargs: number, nresults: number): boolean {
+    const L = this.#L;
+    const base = lua.lua_gettop(L) - nargs;
+
+    lua.lua_pushjsfunction(L, traceback);
+    lua.lua_insert(L, base);
+    const status = lua.lua_pcall(L, nargs, nresults, base);
+    lua.lua_remove(L, base);
+
+    if (status === lua.LUA_OK) {
+      return true;
+    } else if (this.fuel.exhausted) {
+      lua.lua_pop(L, 1);
+      return false;
+    }
+
+    throw this.#error();
+  }
+
+  /**
+   * Pops the error on top of the stack and wraps it in a `LuaError`.
+   */
+  #error(): LuaError {
+    const L = this.#L;
+    const message = lua.lua_type(L, -1) === lua.LUA_TSTRING
+      ? lua.lua_tojsstring(L, -1)
+      : "Unknown error";
+    lua.lua_pop(L, 1);
+
+    const [error, trace] = message.split("\nstack traceback:\n");
+    return new LuaError(error, trace);
+  }
+
+  /**
+   * Holds a reference to the Lua function at the given index, and returns a
+   * host function that calls it. The host function returns the first result
+   * of the Lua function, or undefined if it runs out of fuel. The reference
+   * is released when the current host call returns, unless it is retained.
+   */
+  #reference(L: LuaState, index: number): (...args: unknown[]) => unknown {
+    lua.lua_pushvalue(L, index);
+    const ref = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+    this.#refs.add(ref);
+    this.#borrowed.push(ref);
+
+    const fn = (...args: unknown[]) => {
+      if (this.#closed) {
+        throw new Error(`Sandbox ${this.name} is closed.`);
+      } else if (!this.#refs.has(ref)) {
+        throw new Error("The Lua function has been released.");
+      }
+
+      const L = this.#L;
+      const top = lua.lua_gettop(L);
+
+      try {
+        lua.lua_rawgeti(L, lua.LUA_REGISTRYINDEX, ref);
+
+        for (const arg of args) {
+          this.#push(L, arg);
+        }
+
+        this.fuel.refuel(this.engine.time);
+
+        if (!this.#call(args.length, 1)) {
+          this.#dispatchPreempted();
+          return undefined;
+        }
+
+        return this.#borrow(() => this.#toHost(L, -1));
+      } finally {
+        lua.lua_settop(L, top);
+      }
+    };
+
+    this.#functions.set(fn, ref);
+    return fn;
+  }
+
+  /**
+   * Runs a host call, and releases the Lua functions that were passed to the
+   * host during it, unless they are retained.
+   */
+  #borrow<T>(run: () => T): T {
+    const outer = this.#borrowed;
+    this.#borrowed = [];
+
+    try {
+      return run();
+    } finally {
+      for (const ref of this.#borrowed) {
+        this.#release(ref);
+      }
+
+      this.#borrowed = outer;
+    }
+  }
+
+  /**
+   * Keeps the Lua function of a host function after the current host call
+   * returns, until it is released.
+   * @returns The registry reference to the Lua function.
+   */
+  #retain(fn: (...args: unknown[]) => unknown): number | undefined {
+    const ref = this.#functions.get(fn);
+    const index = ref === undefined ? -1 : this.#borrowed.indexOf(ref);
+
+    if (index !== -1) {
+      this.#borrowed.splice(index, 1);
+    }
+
+    return ref;
+  }
+
+  /**
+   * Releases a registry reference to a Lua function.
+   */
+  #release(ref?: number): void {
+    if (ref !== undefined && this.#refs.delete(ref)) {
+      lauxlib.luaL_unref(this.#L, lua.LUA_REGISTRYINDEX, ref);
+    }
+  }
+
+  /**
+   * Pushes a host value onto the stack. Vectors and orientations become
+   * tables, entities become read-only views, and functions become Lua
+   * functions, which are charged as `api.<name>` when called.
+   */
+  #push(L: LuaState, value: unknown, name = "call", depth = 0): void {
+    if (depth > maxDepth) {
+      throw new TypeError("The value is nested too deeply.");
+    }
+
+    switch (typeof value) {
+      case "undefined":
+        lua.lua_pushnil(L);
+        return;
+      case "boolean":
+        lua.lua_pushboolean(L, value);
+        return;
+      case "number":
+        // Integers in fengari are 32 bits.
+        if ((value | 0) === value) {
+          lua.lua_pushinteger(L, value);
+        } else {
+          lua.lua_pushnumber(L, value);
+        }
+        return;
+      case "string":
+        lua.lua_pushstring(L, to_luastring(value));
+        return;
+      case "function":
+        this.#pushFunction(
+          L,
+          value as (...args: unknown[]) => unknown,
+          name,
+        );
+        return;
+      case "object":
+        break;
+      default:
+        throw new TypeError(`Cannot pass a ${typeof value} to Lua.`);
+    }
+
+    if (value === null) {
+      lua.lua_pushnil(L);
+    } else if (
+      value instanceof Vector2D || value instanceof Vector3D ||
+      value instanceof Orientation3D
+    ) {
+      this.#push(L, value.toObject(), name, depth + 1);
+    } else if (value instanceof Entity) {
+      this.#pushView(L, new GameEntity(value));
+    } else if (value instanceof GameEngine || value instanceof GameEntity) {
+      this.#pushView(L, value);
+    } else if (Array.isArray(value)) {
+      lua.lua_createtable(L, value.length, 0);
+
+      value.forEach((item, index) => {
+        this.#push(L, item, name, depth + 1);
+        lua.lua_rawseti(L, -2, index + 1);
+      });
+    } else {
+      const entries = Object.entries(value);
+      lua.lua_createtable(L, 0, entries.length);
+
+      for (const [key, item] of entries) {
+        this.#push(L, item, name, depth + 1);
+        lua.lua_setfield(L, -2, to_luastring(key));
+      }
+    }
+  }
+
+  /**
+   * Pushes a host function onto the stack. The function is charged as
+   * `api.<name>`, and errors thrown by it are raised as Lua errors. If the
+   * function is a method of a view, the view is expected on top of the stack,
+   * and is dropped from the arguments when the method is called with a colon.
+   */
+  #pushFunction(
+    L: LuaState,
+    fn: (...args: unknown[]) => unknown,
+    name: string,
+    method = false,
+  ): void {
+    const call: LuaJSFunction = (L) => {
+      let paid: boolean;
+
+      try {
+        paid = this.fuel.charge(`api.${name}`);
+
+        if (paid) {
+          const self = method &&
+            lua.lua_rawequal(L, 1, lua.lua_upvalueindex(1));
+
+          this.#borrow(() => {
+            const args: unknown[] = [];
+
+            for (let i = self ? 2 : 1; i <= lua.lua_gettop(L); i += 1) {
+              args.push(this.#toHost(L, i));
+            }
+
+            this.#push(L, fn(...args), name);
+          });
+          return 1;
+        }
+      } catch (error) {
+        return raise(L, error);
+      }
+
+      // Yielding and raising errors unwind the JavaScript stack, so they
+      // happen outside of the try block.
+      return this.#preempt(L, call);
+    };
+
+    if (method) {
+      lua.lua_pushjsclosure(L, call, 1);
+    } else {
+      lua.lua_pushjsfunction(L, call);
+    }
+  }
+
+  /**
+   * Pushes a read-only view of a host object onto the stack. The view exposes
+   * the public properties and methods of the object. Reading a property is
+   * charged as `api.<name>`.
+   */
+  #pushView(L: LuaState, object: object): void {
+    const name = object.constructor.name;
+
+    const index: LuaJSFunction = (L) => {
+      const key = lua.lua_type(L, 2) === lua.LUA_TSTRING
+        ? lua.lua_tojsstring(L, 2)
+        : undefined;
+
+      if (key === undefined || !isExposed(object, key)) {
+        lua.lua_pushnil(L);
+        return 1;
+      }
+
+      let paid: boolean;
+
+      try {
+        paid = this.fuel.charge(`api.${key}`);
+
+        if (paid) {
+          const value = (object as Record<string, unknown>)[key];
+
+          if (typeof value !== "function") {
+            this.#push(L, value, key);
+            return 1;
+          }
+
+          // Calling the method is charged separately.
+          lua.lua_pushvalue(L, 1);
+          this.#pushFunction(
+            L,
+            (...args: unknown[]) => value.apply(object, args),
+            key,
+            true,
+          );
+          return 1;
+        }
+      } catch (error) {
+        return raise(L, error);
+      }
+
+      return this.#preempt(L, index);
+    };
+
+    lua.lua_newtable(L);
+    lua.lua_createtable(L, 0, 4);
+
+    lua.lua_pushjsfunction(L, index);
+    lua.lua_setfield(L, -2, to_luastring("__index"));
+
+    lua.lua_pushjsfunction(L, (L) => raise(L, `${name} is read-only`));
+    lua.lua_setfield(L, -2, to_luastring("__newindex"));
+
+    lua.lua_pushjsfunction(L, (L) => {
+      lua.lua_pushstring(L, to_luastring(name));
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring("__tostring"));
+
+    // Scripts cannot get or replace the metatable of a view.
+    lua.lua_pushboolean(L, false);
+    lua.lua_setfield(L, -2, to_luastring("__metatable"));
+
+    lua.lua_setmetatable(L, -2);
+  }
+
+  /**
+   * Converts the Lua value at the given index to a host value. Sequences
+   * become arrays, other tables become objects, and functions become host
+   * functions that call them.
+   */
+  #toHost(L: LuaState, index: number, depth = 0): unknown {
+    const absolute = lua.lua_absindex(L, index);
+
+    if (depth > maxDepth) {
+      throw new TypeError("The value is nested too deeply.");
+    }
+
+    switch (lua.lua_type(L, absolute)) {
+      case lua.LUA_TNONE:
+      case lua.LUA_TNIL:
+        return undefined;
+      case lua.LUA_TBOOLEAN:
+        return lua.lua_toboolean(L, absolute);
+      case lua.LUA_TNUMBER:
+        return lua.lua_tonumber(L, absolute);
+      case lua.LUA_TSTRING:
+        return lua.lua_tojsstring(L, absolute);
+      case lua.LUA_TFUNCTION:
+        return this.#reference(L, absolute);
+      case lua.LUA_TTABLE:
+        break;
+      default:
+        throw new TypeError(
+          `Cannot pass a ${
+            to_jsstring(lua.lua_typename(L, lua.lua_type(L, absolute)))
+          } to the host.`,
+        );
+    }
+
+    const entries: [key: string | number, value: unknown][] = [];
+    lua.lua_pushnil(L);
+
+    while (lua.lua_next(L, absolute)) {
+      const type = lua.lua_type(L, -2);
+
+      if (type !== lua.LUA_TNUMBER && type !== lua.LUA_TSTRING) {
+        lua.lua_pop(L, 2);
+        throw new TypeError("Table keys must be numbers or strings.");
+      }
+
+      entries.push([
+        type === lua.LUA_TNUMBER
+          ? lua.lua_tonumber(L, -2)
+          : lua.lua_tojsstring(L, -2),
+        this.#toHost(L, -1, depth + 1),
+      ]);
+      lua.lua_pop(L, 1);
+    }
+
+    const isSequence = entries.length > 0 &&
+      entries.every(([key]) =>
+        typeof key === "number" && Number.isInteger(key) && key >= 1 &&
+        key <= entries.length
+      );
+
+    if (isSequence) {
+      const array: unknown[] = new Array(entries.length);
+
+      for (const [key, value] of entries) {
+        array[(key as number) - 1] = value;
+      }
+
+      return array;
+    }
+
+    return Object.fromEntries(entries);
+  }
+}
+
+/**
+ * Raises an error in Lua, with the location of the caller.
+ * @param level The level of the caller on the stack. Hooks run inside the
+ * function that they interrupt, which is at level 0.
+ * @returns Never returns; the return type fits the result of a function.
+ */
+function raise(L: LuaState, error: unknown, level = 1): number {
+  const message = error instanceof Error ? error.message : String(error);
+
+  lauxlib.luaL_where(L, level);
+  lua.lua_pushstring(L, to_luastring(message));
+  lua.lua_concat(L, 2);
+  return lua.lua_error(L);
+}
+
+/**
+ * Whether a property of a host object is exposed to Lua. Only the public
+ * properties of the object and its class are exposed.
+ */
+function isExposed(object: object, key: string): boolean {
+  return key !== "constructor" && !key.startsWith("_") &&
+    !(key in Object.prototype) && key in object;
+}
@@ -1,6 +1,5 @@
-import { Engine } from "../engine.js";
-import { Entity } from "../entity.js";
 import type { DeepReadonly } from "../lobby.js";
+import type { Engine, Entity } from "../loop.js";
 
 /**
  * The options that are used to create a movement.
@@ -17,6 +16,11 @@ export interface MovementOptions {
   engine: Engine;
   /** The steps that the movement will take. */
   steps: MovementStep[];
+  /**
+   * The frame that the movement was paused on, if it is paused. This is used
+   * to restore paused movements.
+   */
+  pausedAt?: number;
 }
 
 /**
@@ -131,6 +135,49 @@ export class Vector3D {
     return fromVector.scale(scalar);
   }
 
+  /**
+   * Calculate the distance between two vectors.
+   * @param from The vector to measure from.
+   * @param to The vector to measure to.
+   * @returns The distance.
+   */
+  static distance(
+    from: Vector3D | Vector3DArray,
+    to: Vector3D | Vector3DArray,
+  ): number {
+    return Vector3D.#from(from).distanceTo(Vector3D.#from(to));
+  }
+
+  /**
+   * Calculate the dot product of two vectors.
+   * @param from The first vector.
+   * @param to The second vector.
+   * @returns The dot product.
+   */
+  static dot(
+    from: Vector3D | Vector3DArray,
+    to: Vector3D | Vector3DArray,
+  ): number {
+    return Vector3D.#from(from).dot(Vector3D.#from(to));
+  }
+
+  /**
+   * Calculate the cross product of two vectors.
+   * @param from The first vector.
+   * @param to The second vector.
+   * @returns A new vector.
+   */
+  static cross(
+    from: Vector3D | Vector3DArray,
+    to: Vector3D | Vector3DArray,
+  ): Vector3D {
+    return Vector3D.#from(from).cross(Vector3D.#from(to));
+  }
+
+  static #from(vector: Vector3D | Vector3DArray): Vector3D {
+    return vector instanceof Vector3D ? vector : Vector3D.fromArray(vector);
+  }
+
   #vector: Vector3DArray;
 
   constructor(vector: Vector3DArray) {
@@ -223,12 +270,264 @@ export class Vector3D {
     ]);
   }
 
+  /**
+   * The length of the vector.
+   */
+  get length(): number {
+    return Math.hypot(this.x, this.y, this.z);
+  }
+
+  /**
+   * The squared length of the vector, which is cheaper to compare than the
+   * length.
+   */
+  get lengthSquared(): number {
+    return this.dot(this);
+  }
+
+  /**
+   * Calculate the dot product of two vectors.
+   * @param other The other vector.
+   * @returns The dot product.
+   */
+  dot(other: Vector3D): number {
+    return this.x * other.x + this.y * other.y + this.z * other.z;
+  }
+
+  /**
+   * Calculate the cross product of two vectors.
+   * @param other The other vector.
+   * @returns A new vector.
+   */
+  cross(other: Vector3D): Vector3D {
+    return this.copy().crossInPlace(other);
+  }
+
+  /**
+   * Calculate the distance to another vector.
+   * @param other The other vector.
+   * @returns The distance.
+   */
+  distanceTo(other: Vector3D): number {
+    return Math.sqrt(this.distanceToSquared(other));
+  }
+
+  /**
+   * Calculate the squared distance to another vector, which is cheaper to
+   * compare than the distance.
+   * @param other The other vector.
+   * @returns The squared distance.
+   */
+  distanceToSquared(other: Vector3D): number {
+    const dx = this.x - other.x;
+    const dy = this.y - other.y;
+    const dz = this.z - other.z;
+    return dx * dx + dy * dy + dz * dz;
+  }
+
+  /**
+   * Calculate the angle between two vectors.
+   * @param other The other vector.
+   * @returns The angle, in radians, from 0 to π, or 0 if either vector is
+   * zero.
+   */
+  angleTo(other: Vector3D): number {
+    const lengths = this.length * other.length;
+    return lengths === 0
+      ? 0
+      : Math.acos(Math.min(1, Math.max(-1, this.dot(other) / lengths)));
+  }
+
+  /**
+   * Negate the vector.
+   * @returns A new vector.
+   */
+  negate(): Vector3D {
+    return this.copy().negateInPlace();
+  }
+
+  /**
+   * Normalize the vector to a length of 1.
+   * @returns A new vector, or a zero vector if the vector is zero.
+   */
+  normalize(): Vector3D {
+    return this.copy().normalizeInPlace();
+  }
+
+  /**
+   * Project the vector onto another.
+   * @param onto The vector to project onto.
+   * @returns A new vector, or a zero vector if the other vector is zero.
+   */
+  project(onto: Vector3D): Vector3D {
+    return this.copy().projectInPlace(onto);
+  }
+
+  /**
+   * Limit the length of the vector.
+   * @param max The maximum length.
+   * @returns A new vector.
+   */
+  clampLength(max: number): Vector3D {
+    return this.copy().clampLengthInPlace(max);
+  }
+
+  /**
+   * Limit the components of the vector.
+   * @param min The minimum components.
+   * @param max The maximum components.
+   * @returns A new vector.
+   */
+  clamp(min: Vector3D, max: Vector3D): Vector3D {
+    return this.copy().clampInPlace(min, max);
+  }
+
+  /**
+   * Whether two vectors are equal.
+   * @param other The other vector.
+   * @param epsilon The largest difference per component that is considered
+   * equal.
+   */
+  equals(other: Vector3D, epsilon = 0): boolean {
+    return Math.abs(this.x - other.x) <= epsilon &&
+      Math.abs(this.y - other.y) <= epsilon &&
+      Math.abs(this.z - other.z) <= epsilon;
+  }
+
+  /**
+   * Set the components of the vector.
+   * @param vector The vector to copy the components from.
+   */
+  set(vector: Vector3D | Vector3DArray): Vector3D {
+    [this.x, this.y, this.z] = vector instanceof Vector3D
+      ? vector.#vector
+      : vector;
+    return this;
+  }
+
+  /**
+   * Add another vector to this one, in place.
+   * @param other The vector to add.
+   */
+  addInPlace(other: Vector3D): Vector3D {
+    this.x += other.x;
+    this.y += other.y;
+    this.z += other.z;
+    return this;
+  }
+
+  /**
+   * Subtract another vector from this one, in place.
+   * @param other The vector to subtract.
+   */
+  subtractInPlace(other: Vector3D): Vector3D {
+    this.x -= other.x;
+    this.y -= other.y;
+    this.z -= other.z;
+    return this;
+  }
+
+  /**
+   * Scale the vector in place.
+   * @param scalar The scalar to scale the vector by.
+   */
+  scaleInPlace(scalar: number): Vector3D {
+    this.x *= scalar;
+    this.y *= scalar;
+    this.z *= scalar;
+    return this;
+  }
+
+  /**
+   * Interpolate towards another vector, in place.
+   * @param other The vector to interpolate to.
+   * @param t The interpolation factor.
+   */
+  interpolateInPlace(other: Vector3D, t: number): Vector3D {
+    this.x += (other.x - this.x) * t;
+    this.y += (other.y - this.y) * t;
+    this.z += (other.z - this.z) * t;
+    return this;
+  }
+
+  /**
+   * Replace the vector with its cross product with another, in place.
+   * @param other The other vector.
+   */
+  crossInPlace(other: Vector3D): Vector3D {
+    const { x, y, z } = this;
+    this.x = y * other.z - z * other.y;
+    this.y = z * other.x - x * other.z;
+    this.z = x * other.y - y * other.x;
+    return this;
+  }
+
+  /**
+   * Negate the vector in place.
+   */
+  negateInPlace(): Vector3D {
+    return this.scaleInPlace(-1);
+  }
+
+  /**
+   * Normalize the vector in place. A zero vector stays zero.
+   */
+  normalizeInPlace(): Vector3D {
+    const length = this.length;
+    return length === 0 ? this : this.scaleInPlace(1 / length);
+  }
+
+  /**
+   * Project the vector onto another, in place. The projection onto a zero
+   * vector is zero.
+   * @param onto The vector to project onto.
+   */
+  projectInPlace(onto: Vector3D): Vector3D {
+    const lengthSquared = onto.lengthSquared;
+
+    if (lengthSquared === 0) {
+      return this.scaleInPlace(0);
+    }
+
+    const scalar = this.dot(onto) / lengthSquared;
+    return this.set(onto).scaleInPlace(scalar);
+  }
+
+  /**
+   * Limit the length of the vector, in place.
+   * @param max The maximum length.
+   */
+  clampLengthInPlace(max: number): Vector3D {
+    const length = this.length;
+    return length > max ? this.scaleInPlace(max / length) : this;
+  }
+
+  /**
+   * Limit the components of the vector, in place.
+   * @param min The minimum components.
+   * @param max The maximum components.
+   */
+  clampInPlace(min: Vector3D, max: Vector3D): Vector3D {
+    this.x = Math.min(max.x, Math.max(min.x, this.x));
+    this.y = Math.min(max.y, Math.max(min.y, this.y));
+    this.z = Math.min(max.z, Math.max(min.z, this.z));
+    return this;
+  }
+
   /**
    * Copy the vector.
    * @returns A new vector.
    */
   copy(): Vector3D {
-    return new Vector3D(this.#vector);
+    return new Vector3D([...this.#vector]);
+  }
+
+  /**
+   * Convert the vector to a 2D vector on the ground plane, dropping z.
+   * @returns A new 2D vector.
+   */
+  toVector2D(): Vector2D {
+    return new Vector2D([this.x, this.y]);
   }
 
   /**
@@ -282,6 +581,505 @@ export interface Vector2DObject {
   y: number;
 }
 
+/**
+ * A 2D vector array. This is used to represent a position on the ground
+ * plane.
+ */
+export type Vector2DArray = [x: number, y: number];
+
+/**
+ * A 2D vector. This is used for math on the ground plane of the map, such as
+ * headings and distances that ignore height.
+ *
+ * Every operation returns a new vector, except for the `InPlace` variants,
+ * which change the vector and return it, so that hot loops do not allocate.
+ *
+ * ```ts
+ * const heading = Vector2D.subtract(target, position).normalize();
+ * const step = new Vector2D([0, 0]);
+ *
+ * for (const unit of units) {
+ *   step.set(heading).scaleInPlace(unit.speed);
+ *   unit.position.addInPlace(step);
+ * }
+ * ```
+ */
+export class Vector2D {
+  /**
+   * Build a vector from an array.
+   * @param array The array to create the vector from.
+   * @returns A new vector.
+   */
+  static fromArray(array: Vector2DArray): Vector2D {
+    return new Vector2D(array);
+  }
+
+  /**
+   * Build a vector from an object.
+   * @param object The object to create the vector from.
+   * @returns A new vector.
+   */
+  static fromObject(object: Vector2DObject): Vector2D {
+    return new Vector2D([object.x, object.y]);
+  }
+
+  /**
+   * Build a vector from a string.
+   * @param string The string to create the vector from.
+   * @returns A new vector.
+   */
+  static fromString(string: string): Vector2D {
+    const [x, y] = string.split(",").map((value) => parseFloat(value));
+    return new Vector2D([x, y]);
+  }
+
+  /**
+   * Build a vector from an angle.
+   * @param angle The angle from +x towards +y, in radians.
+   * @param length The length of the vector.
+   * @returns A new vector.
+   */
+  static fromAngle(angle: number, length = 1): Vector2D {
+    return new Vector2D([Math.cos(angle) * length, Math.sin(angle) * length]);
+  }
+
+  /**
+   * Interpolate between two vectors.
+   * @param from The vector to interpolate from.
+   * @param to The vector to interpolate to.
+   * @param t The interpolation factor.
+   * @returns A new vector.
+   */
+  static interpolate(
+    from: Vector2D | Vector2DArray,
+    to: Vector2D | Vector2DArray,
+    t: number,
+  ): Vector2D {
+    return Vector2D.#from(from).interpolate(Vector2D.#from(to), t);
+  }
+
+  /**
+   * Subtract one vector from another.
+   * @param from The vector to subtract from.
+   * @param to The vector to subtract.
+   * @returns A new vector.
+   */
+  static subtract(
+    from: Vector2D | Vector2DArray,
+    to: Vector2D | Vector2DArray,
+  ): Vector2D {
+    return Vector2D.#from(from).subtract(Vector2D.#from(to));
+  }
+
+  /**
+   * Add one vector to another.
+   * @param from The vector to add to.
+   * @param to The vector to add.
+   * @returns A new vector.
+   */
+  static add(
+    from: Vector2D | Vector2DArray,
+    to: Vector2D | Vector2DArray,
+  ): Vector2D {
+    return Vector2D.#from(from).add(Vector2D.#from(to));
+  }
+
+  /**
+   * Calculate the distance between two vectors.
+   * @param from The vector to measure from.
+   * @param to The vector to measure to.
+   * @returns The distance.
+   */
+  static distance(
+    from: Vector2D | Vector2DArray,
+    to: Vector2D | Vector2DArray,
+  ): number {
+    return Vector2D.#from(from).distanceTo(Vector2D.#from(to));
+  }
+
+  /**
+   * Calculate the dot product of two vectors.
+   * @param from The first vector.
+   * @param to The second vector.
+   * @returns The dot product.
+   */
+  static dot(
+    from: Vector2D | Vector2DArray,
+    to: Vector2D | Vector2DArray,
+  ): number {
+    return Vector2D.#from(from).dot(Vector2D.#from(to));
+  }
+
+  static #from(vector: Vector2D | Vector2DArray): Vector2D {
+    return vector instanceof Vector2D ? vector : Vector2D.fromArray(vector);
+  }
+
+  #vector: Vector2DArray;
+
+  constructor(vector: Vector2DArray) {
+    this.#vector = vector;
+  }
+
+  /**
+   * The x component of the vector.
+   */
+  get x(): number {
+    return this.#vector[0];
+  }
+
+  set x(value: number) {
+    this.#vector[0] = value;
+  }
+
+  /**
+   * The y component of the vector.
+   */
+  get y(): number {
+    return this.#vector[1];
+  }
+
+  set y(value: number) {
+    this.#vector[1] = value;
+  }
+
+  /**
+   * The length of the vector.
+   */
+  get length(): number {
+    return Math.hypot(this.x, this.y);
+  }
+
+  /**
+   * The squared length of the vector, which is cheaper to compare than the
+   * length.
+   */
+  get lengthSquared(): number {
+    return this.dot(this);
+  }
+
+  /**
+   * The angle of the vector from +x towards +y, in radians, from -π to π.
+   */
+  get angle(): number {
+    return Math.atan2(this.y, this.x);
+  }
+
+  /**
+   * Interpolate between two vectors.
+   * @param other The vector to interpolate to.
+   * @param t The interpolation factor.
+   * @returns A new vector.
+   */
+  interpolate(other: Vector2D, t: number): Vector2D {
+    return this.copy().interpolateInPlace(other, t);
+  }
+
+  /**
+   * Subtract one vector from another.
+   * @param other The vector to subtract.
+   * @returns A new vector.
+   */
+  subtract(other: Vector2D): Vector2D {
+    return this.copy().subtractInPlace(other);
+  }
+
+  /**
+   * Add one vector to another.
+   * @param other The vector to add.
+   * @returns A new vector.
+   */
+  add(other: Vector2D): Vector2D {
+    return this.copy().addInPlace(other);
+  }
+
+  /**
+   * Scale a vector.
+   * @param scalar The scalar to scale the vector by.
+   * @returns A new vector.
+   */
+  scale(scalar: number): Vector2D {
+    return this.copy().scaleInPlace(scalar);
+  }
+
+  /**
+   * Calculate the dot product of two vectors.
+   * @param other The other vector.
+   * @returns The dot product.
+   */
+  dot(other: Vector2D): number {
+    return this.x * other.x + this.y * other.y;
+  }
+
+  /**
+   * Calculate the cross product of two vectors, which is the z component of
+   * their 3D cross product. It is positive if the other vector is
+   * counterclockwise from this one.
+   * @param other The other vector.
+   * @returns The cross product.
+   */
+  cross(other: Vector2D): number {
+    return this.x * other.y - this.y * other.x;
+  }
+
+  /**
+   * Calculate the distance to another vector.
+   * @param other The other vector.
+   * @returns The distance.
+   */
+  distanceTo(other: Vector2D): number {
+    return Math.sqrt(this.distanceToSquared(other));
+  }
+
+  /**
+   * Calculate the squared distance to another vector, which is cheaper to
+   * compare than the distance.
+   * @param other The other vector.
+   * @returns The squared distance.
+   */
+  distanceToSquared(other: Vector2D): number {
+    const dx = this.x - other.x;
+    const dy = this.y - other.y;
+    return dx * dx + dy * dy;
+  }
+
+  /**
+   * Calculate the angle between two vectors.
+   * @param other The other vector.
+   * @returns The angle, in radians, from 0 to π, or 0 if either vector is
+   * zero.
+   */
+  angleTo(other: Vector2D): number {
+    return Math.abs(Math.atan2(this.cross(other), this.dot(other)));
+  }
+
+  /**
+   * Negate the vector.
+   * @returns A new vector.
+   */
+  negate(): Vector2D {
+    return this.copy().negateInPlace();
+  }
+
+  /**
+   * Normalize the vector to a length of 1.
+   * @returns A new vector, or a zero vector if the vector is zero.
+   */
+  normalize(): Vector2D {
+    return this.copy().normalizeInPlace();
+  }
+
+  /**
+   * Rotate the vector counterclockwise.
+   * @param angle The angle to rotate by, in radians.
+   * @returns A new vector.
+   */
+  rotate(angle: number): Vector2D {
+    return this.copy().rotateInPlace(angle);
+  }
+
+  /**
+   * The vector rotated a quarter turn counterclockwise.
+   * @returns A new vector.
+   */
+  perpendicular(): Vector2D {
+    return new Vector2D([-this.y, this.x]);
+  }
+
+  /**
+   * Project the vector onto another.
+   * @param onto The vector to project onto.
+   * @returns A new vector, or a zero vector if the other vector is zero.
+   */
+  project(onto: Vector2D): Vector2D {
+    return this.copy().projectInPlace(onto);
+  }
+
+  /**
+   * Limit the length of the vector.
+   * @param max The maximum length.
+   * @returns A new vector.
+   */
+  clampLength(max: number): Vector2D {
+    return this.copy().clampLengthInPlace(max);
+  }
+
+  /**
+   * Limit the components of the vector.
+   * @param min The minimum components.
+   * @param max The maximum components.
+   * @returns A new vector.
+   */
+  clamp(min: Vector2D, max: Vector2D): Vector2D {
+    return this.copy().clampInPlace(min, max);
+  }
+
+  /**
+   * Whether two vectors are equal.
+   * @param other The other vector.
+   * @param epsilon The largest difference per component that is considered
+   * equal.
+   */
+  equals(other: Vector2D, epsilon = 0): boolean {
+    return Math.abs(this.x - other.x) <= epsilon &&
+      Math.abs(this.y - other.y) <= epsilon;
+  }
+
+  /**
+   * Set the components of the vector.
+   * @param vector The vector to copy the components from.
+   */
+  set(vector: Vector2D | Vector2DArray): Vector2D {
+    [this.x, this.y] = vector instanceof Vector2D ? vector.#vector : vector;
+    return this;
+  }
+
+  /**
+   * Add another vector to this one, in place.
+   * @param other The vector to add.
+   */
+  addInPlace(other: Vector2D): Vector2D {
+    this.x += other.x;
+    this.y += other.y;
+    return this;
+  }
+
+  /**
+   * Subtract another vector from this one, in place.
+   * @param other The vector to subtract.
+   */
+  subtractInPlace(other: Vector2D): Vector2D {
+    this.x -= other.x;
+    this.y -= other.y;
+    return this;
+  }
+
+  /**
+   * Scale the vector in place.
+   * @param scalar The scalar to scale the vector by.
+   */
+  scaleInPlace(scalar: number): Vector2D {
+    this.x *= scalar;
+    this.y *= scalar;
+    return this;
+  }
+
+  /**
+   * Interpolate towards another vector, in place.
+   * @param other The vector to interpolate to.
+   * @param t The interpolation factor.
+   */
+  interpolateInPlace(other: Vector2D, t: number): Vector2D {
+    this.x += (other.x - this.x) * t;
+    this.y += (other.y - this.y) * t;
+    return this;
+  }
+
+  /**
+   * Negate the vector in place.
+   */
+  negateInPlace(): Vector2D {
+    return this.scaleInPlace(-1);
+  }
+
+  /**
+   * Normalize the vector in place. A zero vector stays zero.
+   */
+  normalizeInPlace(): Vector2D {
+    const length = this.length;
+    return length === 0 ? this : this.scaleInPlace(1 / length);
+  }
+
+  /**
+   * Rotate the vector counterclockwise, in place.
+   * @param angle The angle to rotate by, in radians.
+   */
+  rotateInPlace(angle: number): Vector2D {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const { x, y } = this;
+    this.x = x * cos - y * sin;
+    this.y = x * sin + y * cos;
+    return this;
+  }
+
+  /**
+   * Project the vector onto another, in place. The projection onto a zero
+   * vector is zero.
+   * @param onto The vector to project onto.
+   */
+  projectInPlace(onto: Vector2D): Vector2D {
+    const lengthSquared = onto.lengthSquared;
+
+    if (lengthSquared === 0) {
+      return this.scaleInPlace(0);
+    }
+
+    const scalar = this.dot(onto) / lengthSquared;
+    return this.set(onto).scaleInPlace(scalar);
+  }
+
+  /**
+   * Limit the length of the vector, in place.
+   * @param max The maximum length.
+   */
+  clampLengthInPlace(max: number): Vector2D {
+    const length = this.length;
+    return length > max ? this.scaleInPlace(max / length) : this;
+  }
+
+  /**
+   * Limit the components of the vector, in place.
+   * @param min The minimum components.
+   * @param max The maximum components.
+   */
+  clampInPlace(min: Vector2D, max: Vector2D): Vector2D {
+    this.x = Math.min(max.x, Math.max(min.x, this.x));
+    this.y = Math.min(max.y, Math.max(min.y, this.y));
+    return this;
+  }
+
+  /**
+   * Copy the vector.
+   * @returns A new vector.
+   */
+  copy(): Vector2D {
+    return new Vector2D([...this.#vector]);
+  }
+
+  /**
+   * Convert the vector to a 3D vector.
+   * @param z The z component of the 3D vector.
+   * @returns A new 3D vector.
+   */
+  toVector3D(z = 0): Vector3D {
+    return new Vector3D([this.x, this.y, z]);
+  }
+
+  /**
+   * The vector as a string.
+   */
+  toString(): Vector2DString {
+    return `${this.x},${this.y}`;
+  }
+
+  /**
+   * The vector as an object.
+   */
+  toObject(): Vector2DObject {
+    return {
+      x: this.x,
+      y: this.y,
+    };
+  }
+
+  /**
+   * The vector as an array.
+   */
+  toArray(): Vector2DArray {
+    return [...this.#vector];
+  }
+}
+
 /**
  * A 3D orientation array. This is used to represent a rotation.
  */
@@ -333,13 +1131,34 @@ export class Orientation3D {
   }
 
   /**
-   * Interpolate between two orientations.
+   * Interpolate between two orientations.
+   * @param from The orientation to interpolate from.
+   * @param to The orientation to interpolate to.
+   * @param t The interpolation factor.
+   * @returns A new orientation.
+   */
+  static interpolate(
+    from: Orientation3D | Vector3DArray,
+    to: Orientation3D | Vector3DArray,
+    t: number,
+  ): Orientation3D {
+    const fromOrientation = from instanceof Orientation3D
+      ? from
+      : Orientation3D.fromArray(from);
+    const toOrientation = to instanceof Orientation3D
+      ? to
+      : Orientation3D.fromArray(to);
+    return fromOrientation.interpolate(toOrientation, t);
+  }
+
+  /**
+   * Spherically interpolate between two orientations.
    * @param from The orientation to interpolate from.
    * @param to The orientation to interpolate to.
    * @param t The interpolation factor.
    * @returns A new orientation.
    */
-  static interpolate(
+  static slerp(
     from: Orientation3D | Vector3DArray,
     to: Orientation3D | Vector3DArray,
     t: number,
@@ -350,7 +1169,7 @@ export class Orientation3D {
     const toOrientation = to instanceof Orientation3D
       ? to
       : Orientation3D.fromArray(to);
-    return fromOrientation.interpolate(toOrientation, t);
+    return fromOrientation.slerp(toOrientation, t);
   }
 
   /**
@@ -439,7 +1258,7 @@ export class Orientation3D {
   }
 
   /**
-   * The pitch of the orientation. This is the rotation around the x axis.
+   * The pitch of the orientation. This is the rotation around the y axis.
    */
   get pitch(): number {
     return this.#orientation[0];
@@ -450,7 +1269,7 @@ export class Orientation3D {
   }
 
   /**
-   * The yaw of the orientation. This is the rotation around the y axis.
+   * The yaw of the orientation. This is the rotation around the z axis.
    */
   get yaw(): number {
     return this.#orientation[1];
@@ -461,7 +1280,7 @@ export class Orientation3D {
   }
 
   /**
-   * The roll of the orientation. This is the rotation around the z axis.
+   * The roll of the orientation. This is the rotation around the x axis.
    */
   get roll(): number {
     return this.#orientation[2];
@@ -472,7 +1291,9 @@ export class Orientation3D {
   }
 
   /**
-   * Interpolate between two orientations.
+   * Interpolate between two orientations, angle by angle. This does not take
+   * the wrap around ±π into account; use `slerp` to rotate between
+   * orientations.
    * @param other The orientation to interpolate to.
    * @param t The interpolation factor.
    * @returns A new orientation.
@@ -485,6 +1306,18 @@ export class Orientation3D {
     ]);
   }
 
+  /**
+   * Spherically interpolate between two orientations, along the shortest
+   * rotation between them. Unlike `interpolate`, this takes the wrap around
+   * ±π into account.
+   * @param other The orientation to interpolate to.
+   * @param t The interpolation factor.
+   * @returns A new orientation.
+   */
+  slerp(other: Orientation3D, t: number): Orientation3D {
+    return this.toQuaternion().slerp(other.toQuaternion(), t).toOrientation();
+  }
+
   /**
    * Subtract one orientation from another.
    * @param other The orientation to subtract.
@@ -542,7 +1375,15 @@ export class Orientation3D {
    * @returns A new orientation.
    */
   copy(): Orientation3D {
-    return new Orientation3D(this.#orientation);
+    return new Orientation3D([...this.#orientation]);
+  }
+
+  /**
+   * Convert the orientation to a quaternion.
+   * @returns A new quaternion.
+   */
+  toQuaternion(): Quaternion {
+    return Quaternion.fromOrientation(this);
   }
 
   /**
@@ -579,6 +1420,383 @@ export class Orientation3D {
   }
 }
 
+/**
+ * A quaternion array, in `[w, x, y, z]` order.
+ */
+export type QuaternionArray = [w: number, x: number, y: number, z: number];
+
+/**
+ * A rotation as a unit quaternion. Unlike Euler angles, quaternions compose
+ * and interpolate without gimbal lock.
+ *
+ * Orientations convert with their angles in radians, applied as yaw around z,
+ * then pitch around y, then roll around x. The identity faces +x, with +z up.
+ *
+ * ```ts
+ * const turret = Quaternion.lookAt(target.location.subtract(entity.location));
+ * const aim = Quaternion.fromOrientation(entity.orientation)
+ *   .slerp(turret, 0.1);
+ *
+ * entity.setOrientation(aim.toOrientation());
+ * ```
+ */
+export class Quaternion {
+  /**
+   * The identity rotation.
+   * @returns A new quaternion.
+   */
+  static identity(): Quaternion {
+    return new Quaternion([1, 0, 0, 0]);
+  }
+
+  /**
+   * Build a quaternion from an array.
+   * @param array The array in `[w, x, y, z]` order.
+   * @returns A new quaternion.
+   */
+  static fromArray(array: QuaternionArray): Quaternion {
+    return new Quaternion(array);
+  }
+
+  /**
+   * Build a quaternion from an orientation.
+   * @param orientation The orientation, in radians.
+   * @returns A new quaternion.
+   */
+  static fromOrientation(
+    orientation: Orientation3D | Orientation3DArray,
+  ): Quaternion {
+    const [pitch, yaw, roll] = orientation instanceof Orientation3D
+      ? orientation.toArray()
+      : orientation;
+    const cy = Math.cos(yaw / 2);
+    const sy = Math.sin(yaw / 2);
+    const cp = Math.cos(pitch / 2);
+    const sp = Math.sin(pitch / 2);
+    const cr = Math.cos(roll / 2);
+    const sr = Math.sin(roll / 2);
+
+    return new Quaternion([
+      cr * cp * cy + sr * sp * sy,
+      sr * cp * cy - cr * sp * sy,
+      cr * sp * cy + sr * cp * sy,
+      cr * cp * sy - sr * sp * cy,
+    ]);
+  }
+
+  /**
+   * Build a rotation around an axis.
+   * @param axis The axis to rotate around.
+   * @param angle The angle to rotate by, in radians.
+   * @returns A new quaternion.
+   */
+  static fromAxisAngle(axis: Vector3D, angle: number): Quaternion {
+    const length = Math.hypot(axis.x, axis.y, axis.z);
+
+    if (length === 0) {
+      return Quaternion.identity();
+    }
+
+    const sin = Math.sin(angle / 2) / length;
+
+    return new Quaternion([
+      Math.cos(angle / 2),
+      axis.x * sin,
+      axis.y * sin,
+      axis.z * sin,
+    ]);
+  }
+
+  /**
+   * Build the rotation that faces a direction: the rotation that turns +x to
+   * the direction, and keeps +z as close to `up` as possible.
+   * @param direction The direction to face.
+   * @param up The up direction. Defaults to +z.
+   * @returns A new quaternion, or the identity if the direction is zero.
+   */
+  static lookAt(
+    direction: Vector3D,
+    up: Vector3D = new Vector3D([0, 0, 1]),
+  ): Quaternion {
+    const forward = direction.normalize();
+
+    if (forward.lengthSquared === 0) {
+      return Quaternion.identity();
+    }
+
+    // When facing along the up direction, fall back to +z as up, and to a yaw
+    // of 0 when facing straight up or down.
+    const left = up.cross(forward);
+
+    if (left.lengthSquared < 1e-18) {
+      left.set([-forward.y, forward.x, 0]);
+    }
+
+    if (left.lengthSquared < 1e-18) {
+      left.set([0, 1, 0]);
+    }
+
+    left.normalizeInPlace();
+    const top = forward.cross(left);
+
+    return Quaternion.#fromAxes(
+      forward.toArray(),
+      left.toArray(),
+      top.toArray(),
+    );
+  }
+
+  /**
+   * Build a quaternion from the images of the x, y and z axes, which are the
+   * columns of a rotation matrix.
+   */
+  static #fromAxes(
+    [m00, m10, m20]: Vector3DArray,
+    [m01, m11, m21]: Vector3DArray,
+    [m02, m12, m22]: Vector3DArray,
+  ): Quaternion {
+    const trace = m00 + m11 + m22;
+
+    if (trace > 0) {
+      const s = Math.sqrt(trace + 1) * 2;
+      return new Quaternion([
+        s / 4,
+        (m21 - m12) / s,
+        (m02 - m20) / s,
+        (m10 - m01) / s,
+      ]).normalize();
+    } else if (m00 > m11 && m00 > m22) {
+      const s = Math.sqrt(1 + m00 - m11 - m22) * 2;
+      return new Quaternion([
+        (m21 - m12) / s,
+        s / 4,
+        (m01 + m10) / s,
+        (m02 + m20) / s,
+      ]).normalize();
+    } else if (m11 > m22) {
+      const s = Math.sqrt(1 + m11 - m00 - m22) * 2;
+      return new Quaternion([
+        (m02 - m20) / s,
+        (m01 + m10) / s,
+        s / 4,
+        (m12 + m21) / s,
+      ]).normalize();
+    }
+
+    const s = Math.sqrt(1 + m22 - m00 - m11) * 2;
+    return new Quaternion([
+      (m10 - m01) / s,
+      (m02 + m20) / s,
+      (m12 + m21) / s,
+      s / 4,
+    ]).normalize();
+  }
+
+  #quaternion: QuaternionArray;
+
+  constructor(quaternion: QuaternionArray) {
+    this.#quaternion = [...quaternion];
+  }
+
+  get w(): number {
+    return this.#quaternion[0];
+  }
+
+  get x(): number {
+    return this.#quaternion[1];
+  }
+
+  get y(): number {
+    return this.#quaternion[2];
+  }
+
+  get z(): number {
+    return this.#quaternion[3];
+  }
+
+  /**
+   * The length of the quaternion. Rotations have a length of 1.
+   */
+  get length(): number {
+    return Math.hypot(...this.#quaternion);
+  }
+
+  /**
+   * Compose this rotation with another. The result applies the other rotation
+   * first, then this one.
+   * @param other The rotation to apply first.
+   * @returns A new quaternion.
+   */
+  multiply(other: Quaternion): Quaternion {
+    const [aw, ax, ay, az] = this.#quaternion;
+    const [bw, bx, by, bz] = other.#quaternion;
+
+    return new Quaternion([
+      aw * bw - ax * bx - ay * by - az * bz,
+      aw * bx + ax * bw + ay * bz - az * by,
+      aw * by - ax * bz + ay * bw + az * bx,
+      aw * bz + ax * by - ay * bx + az * bw,
+    ]);
+  }
+
+  /**
+   * The conjugate of the quaternion, which is the inverse of a rotation.
+   * @returns A new quaternion.
+   */
+  conjugate(): Quaternion {
+    const [w, x, y, z] = this.#quaternion;
+    return new Quaternion([w, -x, -y, -z]);
+  }
+
+  /**
+   * The inverse of the quaternion.
+   * @returns A new quaternion.
+   */
+  inverse(): Quaternion {
+    const squared = this.dot(this);
+
+    if (squared === 0) {
+      throw new Error("A zero quaternion has no inverse.");
+    }
+
+    const [w, x, y, z] = this.#quaternion;
+    return new Quaternion([
+      w / squared,
+      -x / squared,
+      -y / squared,
+      -z / squared,
+    ]);
+  }
+
+  /**
+   * Normalize the quaternion to a length of 1.
+   * @returns A new quaternion.
+   */
+  normalize(): Quaternion {
+    const length = this.length;
+
+    if (length === 0) {
+      return Quaternion.identity();
+    }
+
+    const [w, x, y, z] = this.#quaternion;
+    return new Quaternion([w / length, x / length, y / length, z / length]);
+  }
+
+  /**
+   * Calculate the dot product of two quaternions.
+   * @param other The other quaternion.
+   * @returns The dot product.
+   */
+  dot(other: Quaternion): number {
+    return this.#quaternion.reduce(
+      (sum, value, i) => sum + value * other.#quaternion[i],
+      0,
+    );
+  }
+
+  /**
+   * The angle of the rotation between two rotations.
+   * @param other The other rotation.
+   * @returns The angle, in radians, from 0 to π.
+   */
+  angleTo(other: Quaternion): number {
+    const dot = Math.min(1, Math.abs(this.normalize().dot(other.normalize())));
+    return 2 * Math.acos(dot);
+  }
+
+  /**
+   * Spherically interpolate between two rotations, along the shortest arc.
+   * @param other The rotation to interpolate to.
+   * @param t The interpolation factor.
+   * @returns A new quaternion.
+   */
+  slerp(other: Quaternion, t: number): Quaternion {
+    const from = this.#quaternion;
+    let dot = this.dot(other);
+    const to = dot < 0
+      ? other.#quaternion.map((value) => -value)
+      : other.#quaternion;
+    dot = Math.abs(dot);
+
+    // Nearly identical rotations are interpolated linearly.
+    if (dot > 0.9995) {
+      return new Quaternion(
+        from.map((value, i) => value + (to[i] - value) * t) as QuaternionArray,
+      ).normalize();
+    }
+
+    const angle = Math.acos(Math.min(1, dot));
+    const sin = Math.sin(angle);
+    const a = Math.sin((1 - t) * angle) / sin;
+    const b = Math.sin(t * angle) / sin;
+
+    return new Quaternion(
+      from.map((value, i) => value * a + to[i] * b) as QuaternionArray,
+    );
+  }
+
+  /**
+   * Rotate a vector.
+   * @param vector The vector to rotate.
+   * @returns A new vector.
+   */
+  rotate(vector: Vector3D): Vector3D {
+    const [w, x, y, z] = this.#quaternion;
+    const [vx, vy, vz] = vector.toArray();
+
+    // v + 2w(q × v) + 2q × (q × v), with q the vector part.
+    const tx = 2 * (y * vz - z * vy);
+    const ty = 2 * (z * vx - x * vz);
+    const tz = 2 * (x * vy - y * vx);
+
+    return new Vector3D([
+      vx + w * tx + (y * tz - z * ty),
+      vy + w * ty + (z * tx - x * tz),
+      vz + w * tz + (x * ty - y * tx),
+    ]);
+  }
+
+  /**
+   * Convert the rotation to an orientation.
+   * @returns A new orientation, in radians.
+   */
+  toOrientation(): Orientation3D {
+    const [w, x, y, z] = this.normalize().#quaternion;
+    const sinPitch = 2 * (w * y - z * x);
+
+    return new Orientation3D([
+      Math.abs(sinPitch) >= 1
+        ? Math.sign(sinPitch) * Math.PI / 2
+        : Math.asin(sinPitch),
+      Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z)),
+      Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y)),
+    ]);
+  }
+
+  /**
+   * Copy the quaternion.
+   * @returns A new quaternion.
+   */
+  copy(): Quaternion {
+    return new Quaternion(this.#quaternion);
+  }
+
+  /**
+   * The quaternion as a string.
+   */
+  toString(): string {
+    return this.#quaternion.join(",");
+  }
+
+  /**
+   * The quaternion as an array, in `[w, x, y, z]` order.
+   */
+  toArray(): QuaternionArray {
+    return [...this.#quaternion];
+  }
+}
+
 /**
  * A 3D orientation object. This is used to represent a rotation.
  */
@@ -602,75 +1820,223 @@ export interface MovementStep {
   to: Vector3DArray;
   /** The orientation that the step will start at. */
   orientation: Orientation3DArray;
+  /** The easing of the progress along the step. Defaults to linear. */
+  easing?: EasingName;
 }
 
+/**
+ * An easing curve. It maps the linear progress along a step, from 0 to 1, to
+ * the eased progress.
+ */
+export type Easing = (t: number) => number;
+
+/**
+ * The easing curves that steps can use. Steps refer to them by name, so that
+ * they can be serialized.
+ */
+export const easings = {
+  linear: (t: number) => t,
+  easeIn: (t: number) => t * t,
+  easeOut: (t: number) => t * (2 - t),
+  easeInOut: (t: number) => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t,
+  cubicIn: (t: number) => t * t * t,
+  cubicOut: (t: number) => 1 - (1 - t) ** 3,
+  cubicInOut: (t: number) =>
+    t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2,
+} satisfies Record<string, Easing>;
+
+/**
+ * The name of an easing curve.
+ */
+export type EasingName = keyof typeof easings;
+
 /**
  * A 3D orientation array. This is used to represent a rotation.
  */
 export type Orientation3DArray = [number, number, number];
 
+export interface MovementStepOptions {
+  /** The frame that the first step starts on. */
+  startFrame: number;
+  /** The distance covered per frame. */
+  speed: number;
+  /**
+   * The orientation to keep over segments without a direction, such as the
+   * current orientation of the entity.
+   */
+  orientation: Orientation3DArray;
+  /** The easing of the steps. Defaults to linear. */
+  easing?: EasingName;
+}
+
+/**
+ * Create the steps of a movement along a path. Every segment of the path is a
+ * step, timed by the speed, and takes at least one frame. Consecutive steps
+ * share their boundary frame. Every step faces the direction of its segment,
+ * so that the entity turns along the path.
+ * @param path The points of the path, starting at the current location.
+ * @param options The timing and orientation of the steps.
+ * @returns The steps, or an empty array if the path has less than two points.
+ */
+export function createMovementSteps(
+  path: readonly Vector3D[],
+  { startFrame, speed, orientation, easing }: MovementStepOptions,
+): MovementStep[] {
+  if (speed <= 0) {
+    throw new Error("The speed must be greater than 0.");
+  }
+
+  const steps: MovementStep[] = [];
+  let distance = 0;
+  let frame = startFrame;
+  let facing = orientation;
+
+  for (let i = 1; i < path.length; i += 1) {
+    const direction = path[i].subtract(path[i - 1]);
+    distance += direction.length;
+
+    if (direction.lengthSquared > 0) {
+      facing = Quaternion.lookAt(direction).toOrientation().toArray();
+    }
+
+    // Time the steps by the total distance, so that rounding does not add up.
+    const endFrame = Math.max(
+      frame + 1,
+      startFrame + Math.ceil(distance / speed),
+    );
+
+    steps.push({
+      startFrame: frame,
+      endFrame,
+      from: path[i - 1].toArray(),
+      to: path[i].toArray(),
+      orientation: [...facing],
+      ...(easing && { easing }),
+    });
+
+    frame = endFrame;
+  }
+
+  return steps;
+}
+
 /**
  * A movement is a set of instructions that are executed over a period of time.
+ * Every frame, the entity is placed along the current step by its progress
+ * between the start and end frames of the step, eased by the easing of the
+ * step, and turned from the orientation of the step towards the orientation
+ * of the next step. Between steps, the entity waits at the end of the
+ * previous step.
+ *
+ * ```ts
+ * const movement = Movement.fromPath({
+ *   entity,
+ *   engine,
+ *   path: [entity.location, new Vector3D([10, 0, 0])],
+ *   speed: 2,
+ *   easing: "easeInOut",
+ * });
+ *
+ * entity.setMovement(movement);
+ * ```
  */
 export class Movement {
-  // The unique identifier for the movement. */
+  /**
+   * Create a movement along a path, timed by a speed, starting this frame.
+   * @param options The options of the movement, with the path and the speed.
+   * @returns A new movement.
+   */
+  static fromPath({
+    path,
+    speed,
+    easing,
+    ...options
+  }: Omit<MovementOptions, "steps"> & {
+    path: readonly Vector3D[];
+    speed: number;
+    easing?: EasingName;
+  }): Movement {
+    return new Movement({
+      ...options,
+      steps: createMovementSteps(path, {
+        startFrame: options.engine.time,
+        speed,
+        orientation: options.entity.orientation.toArray(),
+        easing,
+      }),
+    });
+  }
+
+  /** The unique identifier for the movement. */
   readonly id: string;
-  // The entity that the movement is running on. */
+  /** The entity that the movement is running on. */
   readonly entitiy: Entity;
-  // The engine that the movement is running on. */
+  /** The engine that the movement is running on. */
   readonly engine: Engine;
-  // The frame that the movement started on. */
-  readonly startFrame: number;
-  // The frame that the movement will end on. */
-  readonly endFrame: number;
-  // The abort controller that is used to cancel the movement. */
+  /** The abort controller that is used to cancel the movement. */
   readonly abort = new AbortController();
-  // The signal that is used to cancel the movement. */
+  /** The signal that is used to cancel the movement. */
   readonly signal = this.abort.signal;
 
-  // The steps that the movement will take. */
-  readonly #steps: MovementStep[] = [];
+  /** The steps that the movement will take, by start frame. */
+  #steps: MovementStep[] = [];
+  /** The frame that the movement was paused on. */
+  #pausedAt?: number;
 
   constructor({
     id = crypto.randomUUID(),
     entity,
     engine,
     steps = [],
+    pausedAt,
   }: MovementOptions) {
     this.id = id ?? crypto.randomUUID();
     this.entitiy = entity;
     this.engine = engine;
+    this.#pausedAt = pausedAt;
+    this.#setSteps(steps);
+  }
 
-    if (!steps.length) {
-      throw new Error("A movement must have at least one step.");
-    }
-
-    // Sort the steps by their start frame.
-    const sortedSteps = [...steps]
-      .sort((a, b) => a.startFrame - b.startFrame);
-
-    // Set the start and end frames.
-    this.startFrame = sortedSteps[0].startFrame;
-    this.endFrame = steps[sortedSteps.length - 1].endFrame;
+  /**
+   * The frame that the movement starts on.
+   */
+  get startFrame(): number {
+    return this.#steps[0].startFrame;
+  }
 
-    // Add the steps to the movement.
-    for (const step of sortedSteps) {
-      this.#steps.push(step);
-    }
+  /**
+   * The frame that the movement ends on.
+   */
+  get endFrame(): number {
+    return Math.max(...this.#steps.map((step) => step.endFrame));
   }
 
   /**
    * Whether or not the movement is completed.
    */
   get completed(): boolean {
-    return this.engine.time >= this.endFrame;
+    return !this.paused && this.engine.time >= this.endFrame;
+  }
+
+  /**
+   * Whether the movement is paused.
+   */
+  get paused(): boolean {
+    return this.#pausedAt !== undefined;
+  }
+
+  /**
+   * The frame that the movement was paused on, if it is paused.
+   */
+  get pausedAt(): number | undefined {
+    return this.#pausedAt;
   }
 
   /**
    * The number of frames remaining until the movement is completed.
    */
   get remaining(): number {
-    return this.completed ? 0 : this.endFrame - this.engine.time;
+    return Math.max(0, this.endFrame - (this.#pausedAt ?? this.engine.time));
   }
 
   /**
@@ -678,9 +2044,10 @@ export class Movement {
    * If the movement is not currently running, this will be undefined.
    */
   get currentStep(): DeepReadonly<MovementStep> | undefined {
+    const time = this.#time;
+
     return this.#steps.find((step) => {
-      return step.startFrame <= this.engine.time &&
-        step.endFrame >= this.engine.time;
+      return step.startFrame <= time && step.endFrame >= time;
     });
   }
 
@@ -690,7 +2057,7 @@ export class Movement {
    */
   get nextStep(): DeepReadonly<MovementStep> | undefined {
     return this.#steps.find((step) => {
-      return step.startFrame > this.engine.time;
+      return step.startFrame > this.#time;
     });
   }
 
@@ -699,9 +2066,7 @@ export class Movement {
    * If the movement is not currently running, this will be undefined.
    */
   get previousStep(): DeepReadonly<MovementStep> | undefined {
-    return this.#steps.find((step) => {
-      return step.endFrame < this.engine.time;
-    });
+    return this.previousSteps.at(-1);
   }
 
   /**
@@ -717,7 +2082,7 @@ export class Movement {
    */
   get previousSteps(): DeepReadonly<MovementStep[]> {
     return this.#steps.filter((step) => {
-      return step.endFrame < this.engine.time;
+      return step.endFrame < this.#time;
     });
   }
 
@@ -727,51 +2092,125 @@ export class Movement {
    */
   get futureSteps(): DeepReadonly<MovementStep[]> {
     return this.#steps.filter((step) => {
-      return step.startFrame > this.engine.time;
+      return step.startFrame > this.#time;
     });
   }
 
+  /**
+   * The frame that the movement is at. While the movement is paused, it stays
+   * at the frame it was paused on.
+   */
+  get #time(): number {
+    return this.#pausedAt ?? this.engine.time;
+  }
+
+  /**
+   * Pause the movement. The entity stays where it is until the movement is
+   * resumed.
+   */
+  pause(): Movement {
+    this.#pausedAt ??= this.engine.time;
+    return this;
+  }
+
+  /**
+   * Resume the movement. The steps that have not completed are delayed by the
+   * number of frames the movement was paused for, so that the entity
+   * continues from where it stopped.
+   */
+  resume(): Movement {
+    const pausedAt = this.#pausedAt;
+
+    if (pausedAt === undefined) {
+      return this;
+    }
+
+    const delay = this.engine.time - pausedAt;
+    this.#pausedAt = undefined;
+    this.#steps = this.#steps.map((step) =>
+      step.endFrame < pausedAt ? step : {
+        ...step,
+        startFrame: step.startFrame + delay,
+        endFrame: step.endFrame + delay,
+      }
+    );
+
+    return this;
+  }
+
+  /**
+   * Retarget the movement mid-flight. The steps that have not completed are
+   * replaced, and the movement continues with the new steps, which usually
+   * start at the current location of the entity on the current frame.
+   * @param steps The new steps.
+   */
+  retarget(steps: MovementStep[]): Movement {
+    if (!steps.length) {
+      throw new Error("A movement must have at least one step.");
+    }
+
+    const time = this.#time;
+    this.#setSteps([
+      ...this.#steps.filter((step) => step.endFrame < time),
+      ...steps,
+    ]);
+    return this;
+  }
+
   /**
    * Update the movement. This will be called by the engine.
+   * @returns Whether the movement is completed.
    */
   update(): boolean {
-    if (this.completed) {
-      throw new Error("Movement is completed.");
-    } else if (this.signal.aborted) {
+    if (this.signal.aborted) {
       throw new Error("Movement is aborted.");
+    } else if (this.paused) {
+      return false;
     }
 
-    // Update the location and orientation of the entity
-    // by interpolating between the current step's from and to.
-
-    const { currentStep, engine, entitiy } = this;
+    const { engine, entitiy } = this;
+    const time = engine.time;
 
-    if (!currentStep) {
-      throw new Error("Movement is not running.");
+    // Before the movement starts, the entity stays where it is.
+    if (time < this.startFrame) {
+      return false;
     }
 
-    const currentLocation = entitiy.location;
-    const currentOrientation = entitiy.orientation;
-
-    // Calculate the next location
-    const nextLocation = Vector3D.interpolate(
-      currentLocation,
-      Vector3D.fromArray(currentStep.to as Vector3DArray),
-      engine.time / currentStep.endFrame,
+    // The step that is running, or the last step that has ended.
+    const index = this.#steps.findLastIndex((step) => step.startFrame <= time);
+    const step = this.#steps[index];
+    const next = this.#steps[index + 1];
+    const duration = step.endFrame - step.startFrame;
+    const progress = duration > 0
+      ? Math.min(1, Math.max(0, (time - step.startFrame) / duration))
+      : 1;
+    const t = easings[step.easing ?? "linear"](progress);
+
+    entitiy.setLocation(
+      Vector3D.interpolate(
+        step.from as Vector3DArray,
+        step.to as Vector3DArray,
+        t,
+      ),
     );
-
-    // Calculate the next orientation
-    const nextOrientation = Orientation3D.interpolate(
-      currentOrientation,
-      Orientation3D.fromArray(currentStep.orientation as Orientation3DArray),
-      engine.time / currentStep.endFrame,
+    entitiy.setOrientation(
+      Orientation3D.slerp(
+        step.orientation as Orientation3DArray,
+        (next?.orientation ?? step.orientation) as Orientation3DArray,
+        t,
+      ),
     );
 
-    // Update the entity
-    this.entitiy.setLocation(nextLocation);
-    this.entitiy.setOrientation(nextOrientation);
+    return time >= this.endFrame;
+  }
+
+  #setSteps(steps: MovementStep[]): void {
+    if (!steps.length) {
+      throw new Error("A movement must have at least one step.");
+    }
 
-    return this.futureSteps.length === 0;
+    // Sort the steps by their start frame.
+    this.#steps = [...steps].sort((a, b) => a.startFrame - b.startFrame);
   }
 
   [Symbol.for("nodejs.util.inspect.custom")](): string {
@@ -0,0 +1,285 @@
+import { Vector3D, type Vector3DArray } from "./code/movement.js";
+import type { Engine, Entity, System } from "./loop.js";
+
+/**
+ * A bounding shape, centered on the location of its entity.
+ */
+export type BoundingShape =
+  | {
+    type: "sphere";
+    /** The radius of the sphere. */
+    radius: number;
+  }
+  | {
+    type: "box";
+    /** The half of the size of the box along every axis. */
+    halfExtents: Vector3DArray;
+  };
+
+/**
+ * How an entity responds when it moves into another entity.
+ */
+export enum CollisionResponse {
+  /** The entity moves through the other entity. Only triggers are fired. */
+  None = "NONE",
+  /** The entity stays where it was, and its movement is stopped. */
+  Stop = "STOP",
+  /** The entity slides along the surface of the other entity. */
+  Slide = "SLIDE",
+}
+
+/**
+ * The collider of an entity.
+ */
+export interface Collider {
+  /** The bounding shape of the entity. */
+  shape: BoundingShape;
+  /** How the entity responds to collisions. Defaults to none. */
+  response?: CollisionResponse;
+}
+
+/**
+ * A collision between two entities.
+ */
+export interface Collision {
+  /** The first entity, in engine order. */
+  a: Entity;
+  /** The second entity, in engine order. */
+  b: Entity;
+  /** The direction from the second entity to the first. */
+  normal: Vector3D;
+  /** How far the entities overlap along the normal. */
+  depth: number;
+}
+
+/**
+ * A body of the collision system. This is an entity with a collider, at the
+ * location it moves to this frame.
+ */
+interface Body {
+  entity: Entity;
+  collider: Collider;
+  from: Vector3D;
+  to: Vector3D;
+  min: Vector3DArray;
+  max: Vector3DArray;
+}
+
+/**
+ * Creates the collision system. The system detects the entities with a
+ * collider that overlap at the locations they move to this frame, fires the
+ * `hit` trigger on both of them with the other entity as argument, and
+ * resolves the collision according to their collision responses.
+ *
+ * Collisions are detected at the end of the frame, so that an entity that
+ * moves further than the size of an obstacle in a single frame may pass
+ * through it.
+ *
+ * ```ts
+ * engine.addSystem(createCollisionSystem());
+ * ```
+ *
+ * @param onCollision Called for every collision, after it is resolved.
+ * @returns The collision system.
+ */
+export function createCollisionSystem(
+  onCollision?: (collision: Collision) => void,
+): System {
+  return (engine: Engine) => {
+    const bodies: Body[] = [];
+
+    for (const entity of engine.entities) {
+      if (entity.collider && !engine.quarantined.has(entity)) {
+        bodies.push(createBody(entity, entity.collider));
+      }
+    }
+
+    const bodiesByEntity = new Map(bodies.map((body) => [body.entity, body]));
+
+    for (const collision of detectCollisions(bodies)) {
+      resolve(collision, bodiesByEntity);
+      collision.a.addEvent("hit", collision.b);
+      collision.b.addEvent("hit", collision.a);
+      onCollision?.(collision);
+    }
+  };
+}
+
+/**
+ * Detects the collisions between bodies. The broad phase sweeps the bodies
+ * along the x axis, the narrow phase tests their shapes.
+ */
+function detectCollisions(bodies: Body[]): Collision[] {
+  const order = bodies
+    .map((body, index) => ({ body, index }))
+    .sort((a, b) => a.body.min[0] - b.body.min[0] || a.index - b.index);
+  const pairs: [number, number][] = [];
+
+  for (let i = 0; i < order.length; i += 1) {
+    const { body, index } = order[i];
+
+    for (let j = i + 1; j < order.length; j += 1) {
+      const other = order[j];
+
+      if (other.body.min[0] > body.max[0]) {
+        break;
+      } else if (overlaps(body, other.body)) {
+        pairs.push(index < other.index
+          ? [index, other.index]
+          : [other.index, index]);
+      }
+    }
+  }
+
+  // Resolve the pairs in engine order, so that the outcome does not depend on
+  // the positions of the bodies.
+  pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  const collisions: Collision[] = [];
+
+  for (const [i, j] of pairs) {
+    const collision = intersect(bodies[i], bodies[j]);
+
+    if (collision) {
+      collisions.push(collision);
+    }
+  }
+
+  return collisions;
+}
+
+function createBody(entity: Entity, collider: Collider): Body {
+  const from = entity.location;
+  const to =
+    entity.getFragment<Vector3D>(`Entity[${entity.id}].location`)?.value ??
+      from;
+  const extents = halfExtents(collider.shape);
+
+  return {
+    entity,
+    collider,
+    from,
+    to,
+    min: [to.x - extents[0], to.y - extents[1], to.z - extents[2]],
+    max: [to.x + extents[0], to.y + extents[1], to.z + extents[2]],
+  };
+}
+
+function halfExtents(shape: BoundingShape): Vector3DArray {
+  return shape.type === "sphere"
+    ? [shape.radius, shape.radius, shape.radius]
+    : shape.halfExtents;
+}
+
+function overlaps(a: Body, b: Body): boolean {
+  return a.min[0] <= b.max[0] && a.max[0] >= b.min[0] &&
+    a.min[1] <= b.max[1] && a.max[1] >= b.min[1] &&
+    a.min[2] <= b.max[2] && a.max[2] >= b.min[2];
+}
+
+/**
+ * Tests the shapes of two bodies. Boxes are tested as boxes, spheres against
+ * spheres exactly, and spheres against boxes by their closest point.
+ */
+function intersect(a: Body, b: Body): Collision | undefined {
+  const sa = a.collider.shape;
+  const sb = b.collider.shape;
+
+  if (sa.type === "sphere" && sb.type === "sphere") {
+    const delta = a.to.subtract(b.to);
+    const distance = delta.length;
+    const depth = sa.radius + sb.radius - distance;
+
+    return depth > 0
+      ? { a: a.entity, b: b.entity, normal: direction(delta), depth }
+      : undefined;
+  } else if (sa.type === "sphere" || sb.type === "sphere") {
+    const [sphere, box] = sa.type === "sphere" ? [a, b] : [b, a];
+    const radius = (sphere.collider.shape as { radius: number }).radius;
+    const closest = sphere.to.clamp(
+      Vector3D.fromArray(box.min),
+      Vector3D.fromArray(box.max),
+    );
+    const delta = sphere.to.subtract(closest);
+    const distance = delta.length;
+
+    if (distance >= radius) {
+      return undefined;
+    }
+
+    const normal = distance > 0
+      ? direction(delta)
+      : direction(sphere.to.subtract(box.to));
+
+    return {
+      a: a.entity,
+      b: b.entity,
+      normal: sphere === a ? normal : normal.scale(-1),
+      depth: radius - distance,
+    };
+  }
+
+  // Two boxes collide along the axis of the smallest overlap.
+  const overlap = [0, 1, 2].map((axis) =>
+    Math.min(a.max[axis], b.max[axis]) - Math.max(a.min[axis], b.min[axis])
+  );
+
+  if (overlap.some((value) => value <= 0)) {
+    return undefined;
+  }
+
+  const axis = overlap.indexOf(Math.min(...overlap));
+  const normal: Vector3DArray = [0, 0, 0];
+  const delta = a.to.toArray()[axis] - b.to.toArray()[axis];
+  normal[axis] = delta < 0 ? -1 : 1;
+
+  return {
+    a: a.entity,
+    b: b.entity,
+    normal: Vector3D.fromArray(normal),
+    depth: overlap[axis],
+  };
+}
+
+/**
+ * Resolves a collision by applying the collision responses of the entities
+ * that moved into each other.
+ */
+function resolve(collision: Collision, bodies: Map<Entity, Body>): void {
+  for (const entity of [collision.a, collision.b]) {
+    const body = bodies.get(entity)!;
+    const normal = body.entity === collision.a
+      ? collision.normal
+      : collision.normal.scale(-1);
+    const motion = body.to.subtract(body.from);
+
+    // Only respond to collisions that the entity moved into.
+    if (motion.lengthSquared === 0 || motion.dot(normal) >= 0) {
+      continue;
+    }
+
+    switch (body.collider.response) {
+      case CollisionResponse.Stop:
+        body.entity.setLocation(body.from);
+        body.entity.setMovement(undefined);
+        body.to = body.from;
+        break;
+      case CollisionResponse.Slide: {
+        const slide = motion.subtract(normal.scale(motion.dot(normal)));
+        body.to = body.from.add(slide);
+        body.entity.setLocation(body.to);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * The direction of a vector, or up for a zero vector, so that bodies at the
+ * same position are pushed apart vertically.
+ */
+function direction(vector: Vector3D): Vector3D {
+  return vector.lengthSquared > 0
+    ? vector.normalize()
+    : new Vector3D([0, 0, 1]);
+}
@@ -0,0 +1,304 @@
+import {
+  ActionArgumentError,
+  type ActionArgumentDescriptor,
+  type ActionCreator,
+  CheckResult,
+  defineAction,
+} from "./code/actions.js";
+import type { Engine, Entity, System } from "./loop.js";
+
+/**
+ * The default reach of an attack, in cells, for entities without a `range`
+ * attribute. It reaches the neighboring cells, including diagonally.
+ */
+export const DEFAULT_ATTACK_RANGE = 1.5;
+
+/**
+ * An instance of damage dealt to an entity.
+ */
+export interface Damage {
+  /** The entity that deals the damage, if any. */
+  source?: Entity;
+  /** The entity that receives the damage. */
+  target: Entity;
+  /** The amount of damage, before armor mitigation. */
+  amount: number;
+  /** The type of the damage, such as `physical`. */
+  type: string;
+  /** Whether the damage is a critical hit. */
+  critical: boolean;
+  /** Whether the damage ignores the armor of the target. */
+  piercing: boolean;
+}
+
+/**
+ * The result of dealing damage.
+ */
+export interface DamageResult extends Damage {
+  /** The amount of damage after armor mitigation. */
+  dealt: number;
+  /** The base health of the target after the damage. */
+  health: number;
+}
+
+/**
+ * A damage modifier. Damage modifiers run before armor mitigation, in the
+ * order they were added, and can change the damage, such as for critical
+ * hits, or cancel it by returning undefined.
+ * @param damage The damage to modify.
+ * @param engine The engine that is running the game.
+ * @returns The modified damage, or undefined to cancel it.
+ */
+export type DamageModifier = (
+  damage: Damage,
+  engine: Engine,
+) => Damage | undefined;
+
+/**
+ * Removes a damage modifier from the damage pipeline.
+ */
+export type RemoveDamageModifier = () => void;
+
+/**
+ * Mitigate an amount of damage by armor. Every point of armor reduces the
+ * damage by 1% of the remaining damage, so that armor never makes an entity
+ * immune. Negative armor increases the damage.
+ * @param amount The amount of damage.
+ * @param armor The armor of the target.
+ * @returns The mitigated damage.
+ */
+export function mitigate(amount: number, armor: number): number {
+  return armor >= 0
+    ? amount * (100 / (100 + armor))
+    : amount * (2 - 100 / (100 - armor));
+}
+
+/**
+ * Creates the creator of the `attack` action, which attacks a target with the
+ * `damage` attribute of the entity. The target must be another entity, with
+ * health left, within the `range` attribute of the entity, or
+ * `DEFAULT_ATTACK_RANGE` without it.
+ * @param pipeline The damage pipeline that deals the damage. Defaults to the
+ * pipeline of the engine.
+ * @returns The action creator.
+ */
+export function createAttackAction(
+  pipeline?: DamagePipeline,
+): ActionCreator<"attack", [ActionArgumentDescriptor<"target", "entity">]> {
+  return defineAction(
+    [{ type: "entity", name: "target" }],
+    (engine, entity, target) => {
+      const invalid = (message: string) =>
+        new ActionArgumentError(
+          "attack",
+          "target",
+          0,
+          target.id,
+          CheckResult.InvalidArg,
+          message,
+        );
+      const health = target.attributes.get("health")?.value;
+      const range = entity.attributes.get("range")?.value ??
+        DEFAULT_ATTACK_RANGE;
+      const distance = entity.location.distanceTo(target.location);
+
+      if (target === entity) {
+        throw invalid("An entity cannot attack itself.");
+      } else if (health === undefined || health <= 0) {
+        throw invalid(`Entity ${target.id} cannot be damaged.`);
+      } else if (distance > range) {
+        throw invalid(`Entity ${target.id} is out of range.`);
+      }
+
+      return {
+        key: "attack",
+        fuel: 1,
+        execute: () =>
+          (pipeline ?? DamagePipeline.of(engine)).attack(entity, target),
+      };
+    },
+  );
+}
+
+/** The damage pipelines of the engines. */
+const pipelines: WeakMap<Engine, DamagePipeline> = new WeakMap();
+
+/**
+ * Damage that is dealt periodically.
+ */
+interface PeriodicDamage {
+  damage: Damage;
+  interval: number;
+  remaining: number;
+  next: number;
+}
+
+/**
+ * The damage pipeline. The pipeline runs the damage modifiers, mitigates the
+ * damage by the armor of the target, emits the `attacked` and `damage` events
+ * on the target and updates its health through a fragment. The first pipeline
+ * of an engine is its pipeline, which the built-in `attack` action uses.
+ *
+ * ```ts
+ * const combat = new DamagePipeline(engine);
+ * engine.addSystem(combat.system);
+ *
+ * // Critical hits
+ * combat.use((damage) =>
+ *   Math.random() < 0.1
+ *     ? { ...damage, amount: damage.amount * 2, critical: true }
+ *     : damage
+ * );
+ *
+ * combat.attack(attacker, target);
+ *
+ * // Let scripts attack
+ * handler.add({ attack: combat.action });
+ * ```
+ */
+export class DamagePipeline {
+  /** The engine that the damage pipeline is for. */
+  readonly engine: Engine;
+
+  /** The damage modifiers. */
+  #modifiers: Set<DamageModifier> = new Set();
+  /** The damage that is dealt periodically. */
+  #periodic: PeriodicDamage[] = [];
+
+  /**
+   * Gets the damage pipeline of an engine, creating it if it does not exist.
+   * @param engine The engine.
+   */
+  static of(engine: Engine): DamagePipeline {
+    return pipelines.get(engine) ?? new DamagePipeline(engine);
+  }
+
+  constructor(engine: Engine) {
+    this.engine = engine;
+
+    if (!pipelines.has(engine)) {
+      pipelines.set(engine, this);
+    }
+  }
+
+  /**
+   * The system that deals the periodic damage. Add it to the engine to deal
+   * damage over time.
+   */
+  readonly system: System = () => {
+    const { time } = this.engine;
+
+    for (const periodic of [...this.#periodic]) {
+      if (!this.engine.entities.has(periodic.damage.target)) {
+        periodic.remaining = 0;
+      } else if (time >= periodic.next) {
+        this.deal(periodic.damage);
+        periodic.remaining -= 1;
+        periodic.next = time + periodic.interval;
+      }
+    }
+
+    this.#periodic = this.#periodic.filter(({ remaining }) => remaining > 0);
+  };
+
+  /**
+   * The creator of the `attack` action with this pipeline. Add it to the
+   * action handler to let scripts attack through it.
+   */
+  readonly action = createAttackAction(this);
+
+  /**
+   * Adds a damage modifier.
+   * @param modifier The modifier to add.
+   * @returns A function that removes the modifier.
+   */
+  use(modifier: DamageModifier): RemoveDamageModifier {
+    this.#modifiers.add(modifier);
+    return () => this.#modifiers.delete(modifier);
+  }
+
+  /**
+   * Attacks an entity with the `damage` attribute of the attacker.
+   * @param attacker The attacking entity.
+   * @param target The entity to attack.
+   * @param type The type of the damage.
+   * @returns The result of the damage, or undefined if it was cancelled.
+   */
+  attack(
+    attacker: Entity,
+    target: Entity,
+    type = "physical",
+  ): DamageResult | undefined {
+    return this.deal({
+      source: attacker,
+      target,
+      amount: attacker.attributes.get("damage")?.value ?? 0,
+      type,
+      critical: false,
+      piercing: false,
+    });
+  }
+
+  /**
+   * Deals damage to an entity. Damage dealt in the same frame accumulates.
+   * @param damage The damage to deal.
+   * @returns The result of the damage, or undefined if it was cancelled.
+   */
+  deal(damage: Damage): DamageResult | undefined {
+    let modified: Damage | undefined = damage;
+
+    for (const modifier of this.#modifiers) {
+      modified = modifier(modified, this.engine);
+
+      if (!modified) {
+        return undefined;
+      }
+    }
+
+    const { target, source, amount, piercing } = modified;
+    const armor = piercing ? 0 : target.attributes.get("armor")?.value ?? 0;
+    const dealt = Math.max(0, mitigate(amount, armor));
+
+    // Start from the health set earlier this frame, so that damage from
+    // several sources accumulates. Damage changes the base health, below its
+    // modifiers.
+    const current =
+      target.getFragment<number>(`Entity[${target.id}].attributes.health`)
+        ?.value ?? target.attributes.getBase("health")?.value;
+
+    if (current === undefined) {
+      return undefined;
+    }
+
+    const health = Math.max(0, current - dealt);
+    target.setAttribute("health", health);
+
+    if (source) {
+      target.addEvent("attacked", source);
+    }
+
+    target.addEvent("damage", dealt, source);
+
+    return { ...modified, dealt, health };
+  }
+
+  /**
+   * Deals damage periodically, starting this frame. The damage goes through
+   * the modifiers and armor mitigation at every tick.
+   * @param damage The damage to deal at every tick.
+   * @param interval The number of frames between two ticks.
+   * @param ticks The number of ticks.
+   */
+  overTime(damage: Damage, interval: number, ticks: number): void {
+    if (interval <= 0) {
+      throw new Error("The interval must be greater than 0.");
+    }
+
+    this.#periodic.push({
+      damage,
+      interval,
+      remaining: ticks,
+      next: this.engine.time,
+    });
+  }
+}
@@ -1,3 +1,4 @@
+import type { AttributeDefinition } from "../attributes.js";
 import { Hightmap3D } from "../proc.js";
 
 export interface ArenaMapDescription extends Partial<BaseMetadata> {
@@ -27,6 +28,12 @@ export interface ArenaDescription extends Partial<BaseMetadata> {
    * The map of the arena. The map is a 3D array of cells.
    */
   readonly map: ArenaMapDescription;
+
+  /**
+   * The attributes that the entities of the arena can have, in addition to
+   * the built-in attributes.
+   */
+  readonly attributes?: Readonly<Record<string, AttributeDefinition>>;
 }
 
 export interface BaseMetadata {
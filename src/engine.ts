@@ -1,12 +1,52 @@
-import type { Engine as EngineInterface, Entity, Fragment } from "./loop.js";
+import { type AttributeSchema, defaultAttributeSchema } from "./attributes.js";
+import { Orientation3D, Vector3D } from "./code/movement.js";
+import {
+  Entity as BaseEntity,
+  EntityAttributeItems,
+  EntityError,
+} from "./entity.js";
+import type {
+  Engine as EngineInterface,
+  Entity,
+  EntityErrorHandler,
+  Fragment,
+  RemoveSystem,
+  System,
+} from "./loop.js";
+import {
+  assertSnapshotVersion,
+  type EngineSnapshot,
+  type EntitySnapshot,
+  SNAPSHOT_VERSION,
+} from "./snapshot.js";
+
+export interface EngineOptions {
+  /**
+   * The attribute schema of the arena. Entities that are created when a
+   * snapshot is restored get their attributes from it. Defaults to the
+   * default schema.
+   */
+  schema?: AttributeSchema;
+}
 
 export class Engine extends EventTarget implements EngineInterface {
+  /** The attribute schema of the arena. */
+  readonly schema: AttributeSchema;
+
   #currentTime = 0;
   #previousTime = 0;
 
   #entities: Set<Entity> = new Set();
+  #entitiesById: Map<string, Entity> = new Map();
+  #quarantined: Set<Entity> = new Set();
+  #systems: Set<System> = new Set();
   #fragments: Set<Fragment> = new Set();
 
+  constructor({ schema = defaultAttributeSchema }: EngineOptions = {}) {
+    super();
+    this.schema = schema;
+  }
+
   get time(): number {
     return this.#currentTime;
   }
@@ -23,17 +63,99 @@ export class Engine extends EventTarget implements EngineInterface {
     return this.#entities;
   }
 
+  get quarantined(): ReadonlySet<Entity> {
+    return this.#quarantined;
+  }
+
+  get systems(): ReadonlySet<System> {
+    return this.#systems;
+  }
+
   get fragments(): ReadonlySet<Fragment> {
     return this.#fragments;
   }
 
+  getEntity(id: string): Entity | undefined {
+    return this.#entitiesById.get(id);
+  }
+
   addEntity(entity: Entity): Engine {
     this.#entities.add(entity);
+    this.#entitiesById.set(entity.id, entity);
     return this;
   }
 
   removeEntity(entity: Entity): Engine {
     this.#entities.delete(entity);
+    this.#entitiesById.delete(entity.id);
+    this.#quarantined.delete(entity);
+    return this;
+  }
+
+  addSystem(system: System): RemoveSystem {
+    this.#systems.add(system);
+    return () => this.#systems.delete(system);
+  }
+
+  quarantine(entity: Entity): Engine {
+    if (this.#entities.has(entity)) {
+      this.#quarantined.add(entity);
+    }
+
+    return this;
+  }
+
+  release(entity: Entity): Engine {
+    this.#quarantined.delete(entity);
+    return this;
+  }
+
+  snapshot(): EngineSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      time: this.#currentTime,
+      previousTime: this.#previousTime,
+      entities: [...this.#entities].map((entity) => entity.snapshot()),
+      quarantined: [...this.#quarantined].map((entity) => entity.id),
+    };
+  }
+
+  restore(
+    snapshot: EngineSnapshot,
+    create: (snapshot: EntitySnapshot) => Entity = (entitySnapshot) =>
+      new BaseEntity(this, {
+        id: entitySnapshot.id,
+        location: Vector3D.fromArray([...entitySnapshot.location]),
+        orientation: Orientation3D.fromArray([...entitySnapshot.orientation]),
+        attributes: new EntityAttributeItems(this.schema),
+      }),
+  ): Engine {
+    assertSnapshotVersion(snapshot);
+
+    const entities = snapshot.entities.map((entitySnapshot) =>
+      (this.#entitiesById.get(entitySnapshot.id) ?? create(entitySnapshot))
+        .restore(entitySnapshot)
+    );
+
+    this.#currentTime = snapshot.time;
+    this.#previousTime = snapshot.previousTime;
+    this.#fragments.clear();
+    this.#entities.clear();
+    this.#entitiesById.clear();
+    this.#quarantined.clear();
+
+    for (const entity of entities) {
+      this.addEntity(entity);
+    }
+
+    for (const id of snapshot.quarantined) {
+      const entity = this.#entitiesById.get(id);
+
+      if (entity) {
+        this.#quarantined.add(entity);
+      }
+    }
+
     return this;
   }
 
@@ -42,7 +164,7 @@ export class Engine extends EventTarget implements EngineInterface {
     return this;
   }
 
-  async update(time: number): Promise<void> {
+  async update(time: number, onError?: EntityErrorHandler): Promise<void> {
     if (this.#fragments.size) {
       throw new Error("Engine must not have fragments.");
     }
@@ -50,6 +172,94 @@ export class Engine extends EventTarget implements EngineInterface {
     this.#previousTime = this.#currentTime;
     this.#currentTime = time;
 
-    // TODO: Run engine game loop
+    for (const entity of this.#entities) {
+      if (entity.fragments.size) {
+        throw new Error(`Entity ${entity.id} must not have fragments.`);
+      }
+    }
+
+    // Modifiers expire at the start of the frame, including those of the
+    // entities that are asleep or quarantined. The record of the changed
+    // attributes starts anew, so that it holds the expired modifiers and the
+    // fragments of this frame.
+    for (const entity of this.#entities) {
+      entity.clearChangedAttributes();
+      entity.expireModifiers(time);
+    }
+
+    // The entities that failed this frame. They are skipped by the remaining
+    // stages, and their fragments are discarded.
+    const failed: Set<Entity> = new Set();
+    const run = (entity: Entity, stage: string, fn: () => unknown) =>
+      !failed.has(entity) &&
+      this.#runStage(entity, stage, fn, failed, onError);
+
+    // The frame runs in stages over all the entities, in the order they were
+    // added, so that every entity sees the same state at every stage.
+    const awake = [...this.#entities].filter((entity) =>
+      !this.#quarantined.has(entity) &&
+      run(entity, "wake", () => entity.wake())
+    );
+
+    for (const entity of awake) {
+      run(entity, "movement", () => entity.updateMovement());
+    }
+
+    for (const entity of awake) {
+      run(entity, "loops", () => entity.runLoops());
+    }
+
+    for (const system of this.#systems) {
+      system(this);
+    }
+
+    for (const entity of awake) {
+      run(entity, "events", () => entity.runEvents());
+    }
+
+    // Collect the fragments from all the entities
+    for (const entity of this.#entities) {
+      if (failed.has(entity)) {
+        entity.clearFragments();
+        continue;
+      }
+
+      for (const fragment of entity.fragments) {
+        this.#fragments.add(fragment);
+      }
+
+      entity.clearFragments();
+    }
+  }
+
+  /**
+   * Runs a stage of the frame for an entity. Errors are wrapped in an
+   * `EntityError` so that the failing entity can be identified, and emitted as
+   * an `entityerror` event, with the error as detail. Without an error handler,
+   * the error is thrown.
+   */
+  #runStage<T>(
+    entity: Entity,
+    stage: string,
+    fn: () => T,
+    failed: Set<Entity>,
+    onError?: EntityErrorHandler,
+  ): T | undefined {
+    try {
+      return fn();
+    } catch (error) {
+      const entityError = new EntityError(entity, stage, [error as Error]);
+      failed.add(entity);
+      this.dispatchEvent(
+        new CustomEvent("entityerror", { detail: entityError }),
+      );
+
+      if (!onError) {
+        throw entityError;
+      }
+
+      onError(entityError);
+      return undefined;
+    }
   }
 }
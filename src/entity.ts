@@ -4,23 +4,46 @@ import {
   Vector3D,
   type Vector3DArray,
 } from "./code/movement.js";
+import {
+  applyModifiers,
+  AttributeError,
+  type AttributeModifier,
+  type AttributeSchema,
+  defaultAttributeSchema,
+  stackModifier,
+} from "./attributes.js";
+import type { Collider } from "./collision.js";
+import type { EntitySnapshot } from "./snapshot.js";
 import type {
   Engine,
   Entity as EntityInterface,
   EntityInit,
   Fragment,
   Loop,
+  RemoveLoop,
   Removetrigger,
   TriggerListener,
   Triggers,
 } from "./loop.js";
 
-export type EntityAttributes =
+/**
+ * The attributes that every entity can have.
+ */
+export type BuiltinEntityAttributes =
   | "health"
   | "maxHealth"
   | "damage"
   | "armor"
-  | "sleepUntil";
+  | "sleepUntil"
+  | "speed"
+  | "range";
+
+/**
+ * The name of an attribute. Arenas can define their own attributes in their
+ * attribute schema.
+ * @see AttributeSchema
+ */
+export type EntityAttributes = BuiltinEntityAttributes | (string & {});
 
 export interface EntityAttributeItem<
   Attribute extends EntityAttributes = EntityAttributes,
@@ -29,19 +52,109 @@ export interface EntityAttributeItem<
   value: number;
 }
 
+/**
+ * The attributes of an entity. Every attribute has a base value, and can have
+ * modifiers that change its effective value temporarily. Reading an attribute
+ * with `get` returns its effective value, iterating over the attributes
+ * yields their base values.
+ */
 export class EntityAttributeItems {
+  readonly schema: AttributeSchema;
+
   #attributes: Map<EntityAttributes, EntityAttributeItem> = new Map();
+  #modifiers: Map<EntityAttributes, Map<string, AttributeModifier>> =
+    new Map();
+  #changed: Set<EntityAttributes> = new Set();
+  /** The attributes whose effective value is being computed. */
+  #resolving: Set<EntityAttributes> = new Set();
+
+  constructor(schema: AttributeSchema = defaultAttributeSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * The attributes whose effective value changed since the changes were last
+   * cleared.
+   */
+  get changed(): ReadonlySet<EntityAttributes> {
+    return this.#changed;
+  }
+
+  /**
+   * Validates the base value of an attribute against the schema.
+   * @throws {AttributeError} If the value is invalid.
+   * @returns The value, clamped to the range of the attribute.
+   */
+  validate(name: EntityAttributes, value: number): number {
+    return this.schema.validate(
+      name,
+      value,
+      (other) => this.#attributes.get(other)?.value,
+    );
+  }
 
   set<Attribute extends EntityAttributes>(
     name: Attribute,
     value: number,
   ): EntityAttributeItems {
-    this.#attributes.set(name, { name, value });
+    const validated = this.validate(name, value);
+
+    if (this.#attributes.get(name)?.value !== validated) {
+      this.#changed.add(name);
+    }
+
+    this.#attributes.set(name, { name, value: validated });
     return this;
   }
 
+  /**
+   * Gets the effective value of an attribute: its base value with its
+   * modifiers applied, clamped to its range.
+   * @param name The name of the attribute.
+   * @returns The attribute, or undefined if it has no base value.
+   */
   get<Attribute extends EntityAttributes>(
     name: Attribute,
+  ): EntityAttributeItem<Attribute> | undefined {
+    const item = this.#attributes.get(name) as
+      | EntityAttributeItem<Attribute>
+      | undefined;
+    const modifiers = this.#modifiers.get(name);
+
+    if (!item || !modifiers?.size || this.#resolving.has(name)) {
+      return item;
+    }
+
+    this.#resolving.add(name);
+
+    try {
+      let value = applyModifiers(item.value, modifiers.values());
+
+      switch (this.schema.get(name)?.type) {
+        case "integer":
+          value = Math.round(value);
+          break;
+        case "boolean":
+          value = value > 0 ? 1 : 0;
+          break;
+      }
+
+      return {
+        name,
+        value: this.schema.clamp(name, value, (other) => this.get(other)?.value),
+      };
+    } finally {
+      this.#resolving.delete(name);
+    }
+  }
+
+  /**
+   * Gets the base value of an attribute, without its modifiers.
+   * @param name The name of the attribute.
+   * @returns The attribute, or undefined if it has no base value.
+   */
+  getBase<Attribute extends EntityAttributes>(
+    name: Attribute,
   ): EntityAttributeItem<Attribute> | undefined {
     return this.#attributes.get(name) as
       | EntityAttributeItem<Attribute>
@@ -49,19 +162,137 @@ export class EntityAttributeItems {
   }
 
   del(name: EntityAttributes): EntityAttributeItems {
-    this.#attributes.delete(name);
+    if (this.#attributes.delete(name)) {
+      this.#changed.add(name);
+    }
+
+    return this;
+  }
+
+  /**
+   * Gets the modifiers of an attribute, or of all the attributes.
+   * @param name The name of the attribute.
+   * @returns The modifiers, in the order they were first added.
+   */
+  modifiers(name?: EntityAttributes): Readonly<AttributeModifier>[] {
+    if (name !== undefined) {
+      return [...this.#modifiers.get(name)?.values() ?? []];
+    }
+
+    return [...this.#modifiers.values()].flatMap((modifiers) => [
+      ...modifiers.values(),
+    ]);
+  }
+
+  /**
+   * Adds a modifier to an attribute. If the attribute already has a modifier
+   * with the same ID, the modifiers stack according to the stacking policy of
+   * the new modifier.
+   * @param modifier The modifier to add.
+   * @throws {AttributeError} If the attribute is not defined.
+   */
+  addModifier(modifier: AttributeModifier): EntityAttributeItems {
+    const { attribute, id } = modifier;
+
+    if (!this.schema.has(attribute)) {
+      throw new AttributeError(
+        attribute,
+        modifier,
+        `Unknown attribute: ${attribute}`,
+      );
+    }
+
+    return this.#track(attribute, () => {
+      if (!this.#modifiers.has(attribute)) {
+        this.#modifiers.set(attribute, new Map());
+      }
+
+      const modifiers = this.#modifiers.get(attribute)!;
+      modifiers.set(id, stackModifier(modifiers.get(id), modifier));
+    });
+  }
+
+  /**
+   * Removes a modifier from an attribute.
+   * @param name The name of the attribute.
+   * @param id The ID of the modifier.
+   */
+  removeModifier(name: EntityAttributes, id: string): EntityAttributeItems {
+    return this.#track(name, () => {
+      const modifiers = this.#modifiers.get(name);
+      modifiers?.delete(id);
+
+      if (!modifiers?.size) {
+        this.#modifiers.delete(name);
+      }
+    });
+  }
+
+  /**
+   * Removes the modifiers that expire at or before a frame.
+   * @param time The current frame.
+   * @returns The modifiers that expired.
+   */
+  expire(time: number): AttributeModifier[] {
+    const expired: AttributeModifier[] = [];
+
+    for (const [name, modifiers] of [...this.#modifiers]) {
+      for (const modifier of [...modifiers.values()]) {
+        if (modifier.expiresAt !== undefined && modifier.expiresAt <= time) {
+          this.removeModifier(name, modifier.id);
+          expired.push(modifier);
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  clearChanged(): EntityAttributeItems {
+    this.#changed.clear();
     return this;
   }
 
+  /**
+   * The base values of the attributes.
+   */
   [Symbol.iterator](): IterableIterator<EntityAttributeItem> {
     return this.#attributes.values();
   }
+
+  /**
+   * Runs a change to the modifiers of an attribute, and records the attribute
+   * as changed if its effective value changed.
+   */
+  #track(name: EntityAttributes, fn: () => void): EntityAttributeItems {
+    const before = this.get(name)?.value;
+    fn();
+
+    if (this.get(name)?.value !== before) {
+      this.#changed.add(name);
+    }
+
+    return this;
+  }
 }
 
 export interface ReadonlyEntityAttributeItems {
+  readonly schema: AttributeSchema;
+  readonly changed: ReadonlySet<EntityAttributes>;
+
+  validate(name: EntityAttributes, value: number): number;
+
   get<Attribute extends EntityAttributes>(
     name: Attribute,
   ): EntityAttributeItem<Attribute> | undefined;
+
+  getBase<Attribute extends EntityAttributes>(
+    name: Attribute,
+  ): EntityAttributeItem<Attribute> | undefined;
+
+  modifiers(name?: EntityAttributes): Readonly<AttributeModifier>[];
+
+  [Symbol.iterator](): IterableIterator<EntityAttributeItem>;
 }
 
 /**
@@ -74,6 +305,23 @@ export interface EntityEvent<Args extends unknown[] = unknown[]> {
   args: Args;
 }
 
+/**
+ * An error that occurred while updating an entity.
+ */
+export class EntityError extends AggregateError {
+  /** The entity that failed. */
+  readonly entity: EntityInterface;
+  /** The stage of the frame in which the entity failed. */
+  readonly stage: string;
+
+  constructor(entity: EntityInterface, stage: string, errors: Error[]) {
+    super(errors, `Error running ${stage} for entity ${entity.id}`);
+
+    this.entity = entity;
+    this.stage = stage;
+  }
+}
+
 /**
  * An entity is an object which can be updated by the game engine.
  */
@@ -89,19 +337,30 @@ export class Entity extends EventTarget implements EntityInterface {
 
   #location: Vector3D;
   #orientation: Orientation3D;
-  #attributes = new EntityAttributeItems();
+  #attributes: EntityAttributeItems;
   #movement?: Movement;
 
+  collider?: Collider;
+
   constructor(engine: Engine, init: EntityInit) {
     super();
     this.id = init.id ?? crypto.randomUUID();
     this.engine = engine;
+    this.collider = init.collider;
     this.#location = init.location;
     this.#orientation = init.orientation ?? new Orientation3D([0, 0, 0]);
 
+    this.#attributes = new EntityAttributeItems(init.attributes.schema);
+
     for (const attribute of init.attributes) {
       this.#attributes.set(attribute.name, attribute.value);
     }
+
+    for (const [name, definition] of this.#attributes.schema) {
+      if (definition.default !== undefined && !this.#attributes.get(name)) {
+        this.#attributes.set(name, definition.default);
+      }
+    }
   }
 
   get loops(): ReadonlySet<Loop> {
@@ -124,34 +383,125 @@ export class Entity extends EventTarget implements EntityInterface {
     return this.#location.copy();
   }
 
-  setLocation(location: Vector3D) {
+  setLocation(location: Vector3D): Entity {
     const fragment: Fragment<Vector3D> = {
       key: `Entity[${this.id}].location`,
       frame: this.engine.time,
-      value: vector.copy(),
+      value: location.copy(),
     };
 
-    this.addFragments(fragment);
+    return this.addFragments(fragment);
+  }
+
+  commitLocation(location: Vector3D): Entity {
+    this.#location = location.copy();
+    return this;
   }
 
   get orientation(): Orientation3D {
     return this.#orientation.copy();
   }
 
-  setOrientation(orientation: Orientation3D) {
+  setOrientation(orientation: Orientation3D): Entity {
     const fragment: Fragment<Orientation3D> = {
       key: `Entity[${this.id}].orientation`,
       frame: this.engine.time,
       value: orientation.copy(),
     };
 
-    this.addFragments(fragment);
+    return this.addFragments(fragment);
+  }
+
+  commitOrientation(orientation: Orientation3D): Entity {
+    this.#orientation = orientation.copy();
+    return this;
   }
 
   get attributes(): ReadonlyEntityAttributeItems {
     return this.#attributes;
   }
 
+  setAttribute(name: EntityAttributes, value: number): Entity {
+    const fragment: Fragment<number> = {
+      key: `Entity[${this.id}].attributes.${name}`,
+      frame: this.engine.time,
+      value: this.#attributes.validate(name, value),
+    };
+
+    return this.addFragments(fragment);
+  }
+
+  commitAttribute(name: EntityAttributes, value: number): Entity {
+    this.#attributes.set(name, value);
+    return this;
+  }
+
+  addModifier(modifier: AttributeModifier): Entity {
+    if (!this.#attributes.schema.has(modifier.attribute)) {
+      throw new AttributeError(
+        modifier.attribute,
+        modifier,
+        `Unknown attribute: ${modifier.attribute}`,
+      );
+    }
+
+    return this.#addModifierFragment(modifier.attribute, modifier.id, {
+      ...modifier,
+    });
+  }
+
+  removeModifier(name: EntityAttributes, id: string): Entity {
+    return this.#addModifierFragment(name, id, null);
+  }
+
+  commitModifier(
+    name: EntityAttributes,
+    id: string,
+    modifier?: AttributeModifier,
+  ): Entity {
+    if (modifier) {
+      this.#attributes.addModifier({ ...modifier, attribute: name, id });
+    } else {
+      this.#attributes.removeModifier(name, id);
+    }
+
+    return this;
+  }
+
+  expireModifiers(time: number): Entity {
+    for (const modifier of this.#attributes.expire(time)) {
+      this.addEvent("expired", modifier);
+    }
+
+    return this;
+  }
+
+  /**
+   * Adds a change to a modifier to the pending fragment of the modifier. The
+   * changes of a frame accumulate, so that a modifier can gain several stacks
+   * in the same frame.
+   */
+  #addModifierFragment(
+    name: EntityAttributes,
+    id: string,
+    change: AttributeModifier | null,
+  ): Entity {
+    const key = `Entity[${this.id}].modifiers.${name}.${id}`;
+    const pending = this.getFragment<(AttributeModifier | null)[]>(key)?.value;
+    const fragment: Fragment<(AttributeModifier | null)[]> = {
+      key,
+      frame: this.engine.time,
+      value: [...pending ?? [], change],
+    };
+
+    return this.addFragments(fragment);
+  }
+
+  clearChangedAttributes(): Entity {
+    this.#attributes.clearChanged();
+    return this;
+  }
+
   get sleepUntil(): number | undefined {
     return this.#attributes.get("sleepUntil")?.value;
   }
@@ -164,36 +514,138 @@ export class Entity extends EventTarget implements EntityInterface {
     }
   }
 
+  get movement(): Movement | undefined {
+    return this.#movement;
+  }
+
+  setMovement(movement: Movement | undefined): Entity {
+    this.#movement?.abort.abort();
+    this.#movement = movement;
+    return this;
+  }
+
+  snapshot(): EntitySnapshot {
+    const attributes: [string, number][] = [];
+
+    for (const { name, value } of this.#attributes) {
+      attributes.push([name, value]);
+    }
+
+    return {
+      id: this.id,
+      location: this.#location.toArray(),
+      orientation: this.#orientation.toArray(),
+      attributes,
+      modifiers: this.#attributes.modifiers().map((modifier) => ({
+        ...modifier,
+      })),
+      movement: this.#movement && {
+        id: this.#movement.id,
+        steps: this.#movement.steps.map((step) => ({
+          startFrame: step.startFrame,
+          endFrame: step.endFrame,
+          from: [...step.from] as Vector3DArray,
+          to: [...step.to] as Vector3DArray,
+          orientation: [...step.orientation] as Vector3DArray,
+          ...(step.easing && { easing: step.easing }),
+        })),
+        ...(this.#movement.paused && { pausedAt: this.#movement.pausedAt }),
+      },
+    };
+  }
+
+  restore(snapshot: EntitySnapshot): Entity {
+    if (snapshot.id !== this.id) {
+      throw new Error(
+        `Snapshot of entity ${snapshot.id} cannot be restored to entity ${this.id}.`,
+      );
+    }
+
+    this.#location = Vector3D.fromArray([...snapshot.location]);
+    this.#orientation = Orientation3D.fromArray([...snapshot.orientation]);
+
+    for (const { name } of [...this.#attributes]) {
+      this.#attributes.del(name);
+    }
+
+    for (const [name, value] of snapshot.attributes) {
+      this.#attributes.set(name as EntityAttributes, value);
+    }
+
+    for (const { attribute, id } of this.#attributes.modifiers()) {
+      this.#attributes.removeModifier(attribute, id);
+    }
+
+    for (const modifier of snapshot.modifiers ?? []) {
+      this.#attributes.addModifier(modifier);
+    }
+
+    this.#movement = snapshot.movement && new Movement({
+      id: snapshot.movement.id,
+      entity: this,
+      engine: this.engine,
+      steps: snapshot.movement.steps,
+      pausedAt: snapshot.movement.pausedAt,
+    });
+
+    this.clearFragments();
+    this.clearEvents();
+    return this;
+  }
+
   update(): Entity {
-    if (this.#fragments.size) {
-      throw new Error(`Entity ${this.id} must not have fragments.`);
-    } else if (this.#events.size) {
-      throw new Error(`Entity ${this.id} must not have events.`);
+    if (this.wake()) {
+      this.updateMovement();
+      this.runLoops();
+      this.runEvents();
     }
 
-    // Check sleep
+    return this;
+  }
+
+  wake(): boolean {
     if (this.sleepUntil !== undefined) {
       if (this.engine.time < this.sleepUntil) {
-        return this;
+        return false;
       }
 
       this.sleepUntil = undefined;
     }
 
+    return true;
+  }
+
+  updateMovement(): Entity {
     // Update the movement if it exists. If it returns true, then it is done
     // and we can remove it.
     if (this.#movement && this.#movement.update()) {
       this.#movement = undefined;
     }
 
-    // Update the fragments.
+    return this;
+  }
+
+  addLoop(loop: Loop): RemoveLoop {
+    this.#loops.add(loop);
+    return () => this.#loops.delete(loop);
+  }
+
+  runLoops(): Entity {
     for (const loop of this.#loops) {
       loop(this, this.engine);
     }
 
-    // Update the triggers.
-    for (const [name, events] of this.#events) {
-      for (const event of events) {
+    return this;
+  }
+
+  runEvents(): Entity {
+    // Take the queued events first, so that events queued by the triggers are
+    // delivered on the next frame instead of being lost.
+    const events = [...this.#events];
+    this.#events.clear();
+
+    for (const [name, queue] of events) {
+      for (const event of queue) {
         this.runTrigger(name as Triggers, ...event.args);
       }
     }
@@ -201,10 +653,19 @@ export class Entity extends EventTarget implements EntityInterface {
     return this;
   }
 
+  getFragment<Value = unknown>(key: string): Fragment<Value> | undefined {
+    return this.#fragmentsByKey.get(key) as Fragment<Value> | undefined;
+  }
+
   addFragments(...fragments: Fragment[]): Entity {
     for (const fragment of fragments) {
-      if (fragment.key && this.#fragmentsByKey.has(fragment.key)) {
-        this.#fragments.delete(fragment);
+      // A newer fragment replaces the fragment with the same key.
+      const previous = fragment.key
+        ? this.#fragmentsByKey.get(fragment.key)
+        : undefined;
+
+      if (previous) {
+        this.#fragments.delete(previous);
       }
 
       this.#fragments.add(fragment);
@@ -232,6 +693,7 @@ export class Entity extends EventTarget implements EntityInterface {
 
   clearFragments(): Entity {
     this.#fragments.clear();
+    this.#fragmentsByKey.clear();
     return this;
   }
 
@@ -0,0 +1,274 @@
+import { createMoveAction } from "./code/actions.js";
+import type { Vector3D } from "./code/movement.js";
+import {
+  type Cell,
+  MinHeap,
+  type NavigationGrid,
+  neighborOffsets,
+} from "./navigation.js";
+
+/** The default maximum number of flow fields that a cache keeps. */
+export const DEFAULT_MAX_FLOW_FIELDS = 16;
+
+/**
+ * A flow field towards a target cell. For every cell of the navigation grid,
+ * the field knows the cost of the shortest path to the target and the next
+ * cell on it, so that any number of entities can follow it without searching.
+ * The field is a snapshot of the grid when it was built.
+ *
+ * ```ts
+ * const field = new FlowField(grid, [40, 12]);
+ * const path = field.path(entity.location, destination);
+ * ```
+ */
+export class FlowField {
+  /** The navigation grid that the field was built from. */
+  readonly grid: NavigationGrid;
+  /** The target cell. */
+  readonly target: Cell;
+  /** The version of the grid that the field was built from. */
+  readonly version: number;
+
+  /** The cost of the shortest path to the target, by cell index. */
+  #costs: Float64Array;
+  /** The next cell towards the target, by cell index, or -1. */
+  #next: Int32Array;
+
+  constructor(grid: NavigationGrid, target: Cell) {
+    this.grid = grid;
+    this.target = target;
+    this.version = grid.version;
+
+    const { width, height } = grid;
+    this.#costs = new Float64Array(width * height).fill(Infinity);
+    this.#next = new Int32Array(width * height).fill(-1);
+
+    if (!grid.isBlocked(...target)) {
+      this.#build();
+    }
+  }
+
+  /**
+   * Whether the field is outdated, because the grid changed since it was
+   * built.
+   */
+  get stale(): boolean {
+    return this.version !== this.grid.version;
+  }
+
+  /**
+   * The cost of the shortest path from a cell to the target.
+   * @param cell The cell.
+   * @returns The cost, or Infinity if the target cannot be reached.
+   */
+  cost([x, y]: Cell): number {
+    return this.grid.contains(x, y)
+      ? this.#costs[this.grid.indexOf(x, y)]
+      : Infinity;
+  }
+
+  /**
+   * The next cell towards the target.
+   * @param cell The cell.
+   * @returns The next cell, or undefined at the target or if the target
+   * cannot be reached.
+   */
+  next([x, y]: Cell): Cell | undefined {
+    if (!this.grid.contains(x, y)) {
+      return undefined;
+    }
+
+    const next = this.#next[this.grid.indexOf(x, y)];
+    return next === -1 ? undefined : this.grid.cellAt(next);
+  }
+
+  /**
+   * Follows the field from a cell to the target.
+   * @param cell The cell to start from.
+   * @returns The cells of the path, including both ends, or undefined if the
+   * target cannot be reached.
+   */
+  cells(cell: Cell): Cell[] | undefined {
+    if (this.cost(cell) === Infinity) {
+      return undefined;
+    }
+
+    const cells: Cell[] = [cell];
+
+    for (let next = this.next(cell); next; next = this.next(next)) {
+      cells.push(next);
+    }
+
+    return cells;
+  }
+
+  /**
+   * Follows the field from a location to a destination in the target cell.
+   * @param from The location to start from.
+   * @param to The destination, in the target cell.
+   * @returns The points of the path, or undefined if the target cannot be
+   * reached.
+   */
+  path(from: Vector3D, to: Vector3D): Vector3D[] | undefined {
+    const start = this.grid.cellOf(from);
+    const cells = start && this.cells(start);
+    return cells && this.grid.toPath(from, to, cells);
+  }
+
+  /**
+   * Builds the field with Dijkstra's algorithm, from the target outwards.
+   */
+  #build(): void {
+    const { grid } = this;
+    const costs = this.#costs;
+    const next = this.#next;
+    const closed = new Uint8Array(costs.length);
+    const open = new MinHeap();
+    const targetIndex = grid.indexOf(...this.target);
+
+    costs[targetIndex] = 0;
+    open.push(targetIndex, 0);
+
+    while (open.size) {
+      const index = open.pop();
+
+      if (closed[index]) {
+        continue;
+      }
+
+      closed[index] = 1;
+      const cell = grid.cellAt(index);
+
+      for (const [dx, dy] of neighborOffsets) {
+        const neighbor: Cell = [cell[0] + dx, cell[1] + dy];
+
+        // The field is followed from the neighbor to the cell.
+        if (!grid.contains(...neighbor) || !grid.canWalk(neighbor, cell)) {
+          continue;
+        }
+
+        const neighborIndex = grid.indexOf(...neighbor);
+        const cost = costs[index] + grid.cost(neighbor, cell);
+
+        if (!closed[neighborIndex] && cost < costs[neighborIndex]) {
+          costs[neighborIndex] = cost;
+          next[neighborIndex] = index;
+          open.push(neighborIndex, cost);
+        }
+      }
+    }
+  }
+}
+
+export interface FlowFieldCacheOptions {
+  /** The navigation grid to build the fields from. */
+  grid: NavigationGrid;
+  /**
+   * The maximum number of fields to keep. The least recently used field is
+   * dropped first. Defaults to `DEFAULT_MAX_FLOW_FIELDS`.
+   */
+  maxSize?: number;
+}
+
+/**
+ * A cache of flow fields, by target cell. Entities that move to the same cell
+ * share its field, so that large groups move without searching for a path
+ * each. The cache is cleared whenever the grid changes, such as when a
+ * structure blocks a cell or the terrain is deformed.
+ *
+ * ```ts
+ * const flows = new FlowFieldCache({ grid });
+ *
+ * // Let scripts move along the shared fields
+ * handler.add({ move: flows.action });
+ *
+ * for (const unit of army) {
+ *   queue.submit(unit, "move", destination);
+ * }
+ * ```
+ */
+export class FlowFieldCache {
+  /** The navigation grid to build the fields from. */
+  readonly grid: NavigationGrid;
+  /** The maximum number of fields to keep. */
+  readonly maxSize: number;
+
+  /** The fields, by target cell index, from least to most recently used. */
+  #fields: Map<number, FlowField> = new Map();
+
+  constructor({
+    grid,
+    maxSize = DEFAULT_MAX_FLOW_FIELDS,
+  }: FlowFieldCacheOptions) {
+    if (maxSize < 1) {
+      throw new Error("The cache must keep at least 1 field.");
+    }
+
+    this.grid = grid;
+    this.maxSize = maxSize;
+    grid.addEventListener("changed", () => this.clear());
+  }
+
+  /**
+   * The move action, which moves the entity along the flow field to its
+   * destination. Destinations that cannot be reached are rejected.
+   */
+  readonly action = createMoveAction((from, to) => this.path(from, to));
+
+  /**
+   * The number of fields in the cache.
+   */
+  get size(): number {
+    return this.#fields.size;
+  }
+
+  /**
+   * Gets the field towards a target cell, building it if it is not cached.
+   * @param target The target cell.
+   * @returns The field, or undefined if the cell is outside the grid.
+   */
+  get(target: Cell): FlowField | undefined {
+    const [x, y] = target;
+
+    if (!this.grid.contains(x, y)) {
+      return undefined;
+    }
+
+    const index = this.grid.indexOf(x, y);
+    let field = this.#fields.get(index);
+    this.#fields.delete(index);
+
+    if (!field || field.stale) {
+      field = new FlowField(this.grid, [x, y]);
+    }
+
+    this.#fields.set(index, field);
+
+    if (this.#fields.size > this.maxSize) {
+      this.#fields.delete(this.#fields.keys().next().value!);
+    }
+
+    return field;
+  }
+
+  /**
+   * Finds the path from a location to a destination along the field of its
+   * cell.
+   * @param from The location to start from.
+   * @param to The destination.
+   * @returns The points of the path, or undefined if the destination cannot be
+   * reached.
+   */
+  path(from: Vector3D, to: Vector3D): Vector3D[] | undefined {
+    const target = this.grid.cellOf(to);
+    return target && this.get(target)?.path(from, to);
+  }
+
+  /**
+   * Removes all fields.
+   */
+  clear(): FlowFieldCache {
+    this.#fields.clear();
+    return this;
+  }
+}
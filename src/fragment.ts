@@ -0,0 +1,222 @@
+import type { AttributeModifier } from "./attributes.js";
+import type { Orientation3D, Vector3D } from "./code/movement.js";
+import type { EntityAttributes } from "./entity.js";
+import type { Engine, Entity, Fragment, Triggers } from "./loop.js";
+
+/**
+ * A fragment reducer. A fragment reducer commits the value of a fragment back
+ * into the game state.
+ * @template Value The value of the fragment.
+ * @param fragment The fragment to commit.
+ * @param params The parts of the fragment key matched by the wildcards of the
+ * key pattern, in order.
+ * @param engine The engine that is running the game.
+ */
+export type FragmentReducer<Value = unknown> = (
+  fragment: Fragment<Value>,
+  params: string[],
+  engine: Engine,
+) => void;
+
+const keyPatternRegex = /[.+^${}()|[\]\\]|\*|\?/g;
+
+/**
+ * Convert a fragment key pattern to a regex. A `*` matches any number of
+ * characters and a `?` matches a single character, every other character is
+ * matched literally. The wildcards are captured.
+ * @param pattern The key pattern to convert.
+ * @returns The regex that matches the key pattern.
+ */
+export function keyPatternToRegex(pattern: string): RegExp {
+  const source = pattern.replace(keyPatternRegex, (match) => {
+    if (match === "*") {
+      return "(.*?)";
+    } else if (match === "?") {
+      return "(.)";
+    }
+
+    return `\\${match}`;
+  });
+
+  return new RegExp(`^${source}$`);
+}
+
+const entityKeyRegex = /^Entity\[(?<id>[^\]]+)\]/;
+
+/**
+ * Get the ID of the entity that a fragment key refers to.
+ * @param key The fragment key.
+ * @returns The ID of the entity, or undefined if the key does not refer to an
+ * entity.
+ */
+export function entityIdFromKey(key: string): string | undefined {
+  return key.match(entityKeyRegex)?.groups?.id;
+}
+
+/**
+ * A map of fragment reducers, keyed by fragment key patterns.
+ */
+export class FragmentReducerMap {
+  /** The reducers by key pattern, in the order in which they were set. */
+  #reducers: Map<string, { regex: RegExp; reducers: FragmentReducer[] }> =
+    new Map();
+
+  /**
+   * Sets the reducer for a key pattern, replacing the reducers that were
+   * already set for it.
+   * @param pattern The key pattern, such as `Entity[*].location`.
+   * @param reducer The reducer to set.
+   */
+  set<Value = unknown>(
+    pattern: string,
+    reducer: FragmentReducer<Value>,
+  ): FragmentReducerMap {
+    this.#reducers.set(pattern, {
+      regex: keyPatternToRegex(pattern),
+      reducers: [reducer as FragmentReducer],
+    });
+
+    return this;
+  }
+
+  /**
+   * Adds a reducer for a key pattern. The reducer runs after the reducers
+   * that were already set for it.
+   * @param pattern The key pattern, such as `Entity[*].location`.
+   * @param reducer The reducer to add.
+   */
+  add<Value = unknown>(
+    pattern: string,
+    reducer: FragmentReducer<Value>,
+  ): FragmentReducerMap {
+    const entry = this.#reducers.get(pattern);
+
+    if (!entry) {
+      return this.set(pattern, reducer);
+    }
+
+    entry.reducers.push(reducer as FragmentReducer);
+    return this;
+  }
+
+  /**
+   * Gets the reducers that match a fragment key.
+   * @param key The fragment key to match against.
+   * @returns The matching reducers and their wildcard parameters.
+   */
+  get(key: string): { reducer: FragmentReducer; params: string[] }[] {
+    const matches: { reducer: FragmentReducer; params: string[] }[] = [];
+
+    for (const { regex, reducers } of this.#reducers.values()) {
+      const match = key.match(regex);
+
+      if (match) {
+        for (const reducer of reducers) {
+          matches.push({ reducer, params: match.slice(1) });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Deletes the reducers for a key pattern.
+   * @param pattern The key pattern to delete.
+   * @returns Whether the reducers were deleted.
+   */
+  del(pattern: string): boolean {
+    return this.#reducers.delete(pattern);
+  }
+
+  /**
+   * Applies fragments to the game state. Fragments are applied in order of
+   * their frame, then of their key. Fragments with the same frame and key are
+   * applied in the order they were given. Fragments without a key are not
+   * reduced, but their triggers are still fired.
+   *
+   * The triggers of a fragment are queued as events on the entity that its key
+   * refers to, with the value of the fragment as argument. They are delivered
+   * in the event stage of the next frame.
+   * @param engine The engine that is running the game.
+   * @param fragments The fragments to apply.
+   */
+  apply(engine: Engine, fragments: Iterable<Fragment>): void {
+    const sorted = [...fragments].sort((a, b) =>
+      a.frame - b.frame || compareKeys(a.key, b.key)
+    );
+
+    for (const fragment of sorted) {
+      if (fragment.key === undefined) {
+        continue;
+      }
+
+      for (const { reducer, params } of this.get(fragment.key)) {
+        reducer(fragment, params, engine);
+      }
+
+      if (fragment.triggers?.length) {
+        const id = entityIdFromKey(fragment.key);
+        const entity = id === undefined ? undefined : engine.getEntity(id);
+
+        for (const trigger of fragment.triggers) {
+          entity?.addEvent<Triggers>(trigger, fragment.value);
+        }
+      }
+    }
+  }
+}
+
+function compareKeys(a?: string, b?: string): number {
+  if (a === b) {
+    return 0;
+  } else if (a === undefined) {
+    return -1;
+  } else if (b === undefined) {
+    return 1;
+  }
+
+  return a < b ? -1 : 1;
+}
+
+function requireEntity(engine: Engine, id: string): Entity {
+  const entity = engine.getEntity(id);
+
+  if (!entity) {
+    throw new Error(`Entity ${id} not found.`);
+  }
+
+  return entity;
+}
+
+/**
+ * The global fragment reducer map. This is used to commit the fragments of
+ * every frame back into the game state.
+ */
+export const fragmentReducers = new FragmentReducerMap()
+  .set<Vector3D>("Entity[*].location", (fragment, [id], engine) => {
+    requireEntity(engine, id).commitLocation(fragment.value);
+  })
+  .set<Orientation3D>("Entity[*].orientation", (fragment, [id], engine) => {
+    requireEntity(engine, id).commitOrientation(fragment.value);
+  })
+  .set<number>("Entity[*].attributes.*", (fragment, [id, name], engine) => {
+    requireEntity(engine, id).commitAttribute(
+      name as EntityAttributes,
+      fragment.value,
+    );
+  })
+  .set<(AttributeModifier | null)[]>(
+    "Entity[*].modifiers.*.*",
+    (fragment, [id, name, modifierId], engine) => {
+      const entity = requireEntity(engine, id);
+
+      for (const change of fragment.value) {
+        entity.commitModifier(
+          name as EntityAttributes,
+          modifierId,
+          change ?? undefined,
+        );
+      }
+    },
+  );
@@ -31,10 +31,22 @@ export class FuelConsumptionMap {
    */
   get(glob: string): FuelConsumption[] {
     const types = [...this.#map.keys()];
-    const matchedTypes = types.filter((type) => glob.match(globToRegex(type)));
+    const matchedTypes = types.filter((type) =>
+      glob.match(new RegExp(`^${globToRegex(type)}$`))
+    );
     return matchedTypes.map((key) => this.#map.get(key)!);
   }
 
+  /**
+   * Gets the cost of a type. This is the highest of the fuel consumption
+   * values that match it, or 0 if none match.
+   * @param type The type to get the cost of, such as `api.move`.
+   * @returns The cost of the type.
+   */
+  cost(type: string): FuelConsumption {
+    return Math.max(0, ...this.get(type));
+  }
+
   /**
    * Deletes a type from the map.
    * @param type The type to delete.
@@ -50,5 +62,158 @@ export class FuelConsumptionMap {
  * action consumes. If the fuel consumption is 0, the action is free. If the
  * player's fuel is less than the fuel consumption, the action cannot be
  * performed.
+ *
+ * Scripts are charged `api.<name>` for every call to the host, and
+ * `vm.instructions` for every interval of VM instructions.
  */
-export const fuelConsumptionMap = new FuelConsumptionMap();
+export const fuelConsumptionMap = new FuelConsumptionMap()
+  .set("vm.instructions", 1)
+  .set("api.*", 1);
+
+/** The default fuel budget of an entity per frame. */
+export const DEFAULT_FUEL_BUDGET = 1000;
+
+/**
+ * An error that is thrown when fuel is charged that can never be paid.
+ */
+export class FuelError extends AggregateError {
+  /** The type that was charged. */
+  readonly type: string;
+  /** The cost of the type. */
+  readonly cost: number;
+
+  constructor(type: string, cost: number, message: string) {
+    super([], message);
+    this.type = type;
+    this.cost = cost;
+  }
+}
+
+export interface FuelMeterOptions {
+  /** The fuel budget per frame. Defaults to `DEFAULT_FUEL_BUDGET`. */
+  budget?: number;
+  /** The fuel consumption map to look the costs up in. */
+  map?: FuelConsumptionMap;
+}
+
+/**
+ * Meters the fuel of an entity. The entity gets a fresh budget every frame,
+ * and every charge is deducted from it. Once a charge cannot be paid, the
+ * meter is exhausted until the next frame.
+ *
+ * @emits exhausted When a charge cannot be paid, with the type as detail.
+ *
+ * ```ts
+ * const meter = new FuelMeter({ budget: 100 });
+ * meter.refuel(engine.time);
+ *
+ * if (meter.charge("api.move")) {
+ *   // Perform the move.
+ * }
+ * ```
+ */
+export class FuelMeter extends EventTarget {
+  /** The fuel budget per frame. */
+  readonly budget: number;
+  /** The fuel consumption map to look the costs up in. */
+  readonly map: FuelConsumptionMap;
+
+  #remaining: number;
+  #exhausted = false;
+  /** The frame of the last refuel. */
+  #frame?: number;
+
+  constructor(
+    { budget = DEFAULT_FUEL_BUDGET, map = fuelConsumptionMap }:
+      FuelMeterOptions = {},
+  ) {
+    super();
+    this.budget = budget;
+    this.map = map;
+    this.#remaining = budget;
+  }
+
+  /**
+   * The fuel that remains this frame.
+   */
+  get remaining(): number {
+    return this.#remaining;
+  }
+
+  /**
+   * The fuel that was used this frame.
+   */
+  get used(): number {
+    return this.budget - this.#remaining;
+  }
+
+  /**
+   * Whether a charge could not be paid this frame.
+   */
+  get exhausted(): boolean {
+    return this.#exhausted;
+  }
+
+  /**
+   * Restores the budget, once per frame.
+   * @param frame The current frame.
+   * @returns Whether the budget was restored.
+   */
+  refuel(frame: number): boolean {
+    if (this.#frame === frame) {
+      return false;
+    }
+
+    this.#frame = frame;
+    this.#remaining = this.budget;
+    this.#exhausted = false;
+    return true;
+  }
+
+  /**
+   * Charges the cost of a type. Nothing is deducted if the cost cannot be
+   * paid, and the meter is exhausted until the next frame.
+   * @param type The type to charge, such as `api.move`.
+   * @param amount The number of times to charge the type.
+   * @returns Whether the cost was paid.
+   * @throws {FuelError} If the cost exceeds the budget, so that it can never
+   * be paid.
+   */
+  charge(type: string, amount = 1): boolean {
+    const cost = this.map.cost(type) * amount;
+
+    if (cost > this.budget) {
+      throw new FuelError(
+        type,
+        cost,
+        `The cost of ${type} (${cost}) exceeds the fuel budget (${this.budget}).`,
+      );
+    } else if (this.#exhausted || cost > this.#remaining) {
+      if (!this.#exhausted) {
+        this.#exhausted = true;
+        this.dispatchEvent(new CustomEvent("exhausted", { detail: type }));
+      }
+
+      return false;
+    }
+
+    this.#remaining -= cost;
+    return true;
+  }
+
+  /**
+   * Spends an amount of fuel that is not looked up in the map, such as the
+   * cost of an action. Unlike a charge, a spend that cannot be paid does not
+   * exhaust the meter, so that cheaper spends can still be paid.
+   * @param amount The amount of fuel to spend.
+   * @returns Whether the amount was spent.
+   */
+  spend(amount: number): boolean {
+    if (this.#exhausted || amount > this.#remaining) {
+      return false;
+    }
+
+    this.#remaining -= amount;
+    return true;
+  }
+}
@@ -0,0 +1,160 @@
+import { addEntity, removeEntity } from "./slices/entities.js";
+import store, { type AppDispatch } from "./store.js";
+import type { Engine, Entity } from "./loop.js";
+
+export interface LifecycleManagerOptions {
+  /** The engine to spawn the entities in. */
+  engine: Engine;
+  /** The dispatch function of the store. Defaults to the global store. */
+  dispatch?: AppDispatch;
+}
+
+/**
+ * An error that is reported when an entity cannot be spawned or despawned.
+ */
+export class LifecycleError extends AggregateError {
+  /** The entity that could not be spawned or despawned. */
+  readonly entity: Entity;
+
+  constructor(entity: Entity, message: string, errors: unknown[] = []) {
+    super(errors, message);
+    this.entity = entity;
+  }
+}
+
+/**
+ * Manages the lifecycle of entities. Spawns and despawns are queued, and
+ * applied at the frame boundary, so that the set of entities does not change
+ * during a frame.
+ *
+ * Spawned entities receive the `created` trigger in the event stage of their
+ * first frame. Despawned entities receive the `destroyed` trigger right before
+ * they are removed. Entities whose `health` attribute reaches 0 are despawned
+ * automatically.
+ *
+ * @emits spawn When an entity has been added to the engine.
+ * @emits despawn When an entity has been removed from the engine.
+ * @emits error When an entity cannot be spawned, or its `destroyed` trigger
+ * fails, with a `LifecycleError` as detail. An entity that cannot be spawned
+ * is dropped from the queue, an entity whose trigger fails is still removed.
+ *
+ * ```ts
+ * const lifecycle = new LifecycleManager({ engine });
+ * const loop = createLoop(engine, engine.entities, frame, { lifecycle });
+ *
+ * lifecycle.spawn(entity);
+ * ```
+ */
+export class LifecycleManager extends EventTarget {
+  /** The engine to spawn the entities in. */
+  readonly engine: Engine;
+
+  /** The dispatch function of the store. */
+  #dispatch: AppDispatch;
+  /** The entities that are queued to be spawned. */
+  #spawns: Set<Entity> = new Set();
+  /** The entities that are queued to be despawned. */
+  #despawns: Set<Entity> = new Set();
+
+  constructor({ engine, dispatch = store.dispatch }: LifecycleManagerOptions) {
+    super();
+    this.engine = engine;
+    this.#dispatch = dispatch;
+  }
+
+  /**
+   * The entities that are queued to be spawned.
+   */
+  get spawns(): ReadonlySet<Entity> {
+    return this.#spawns;
+  }
+
+  /**
+   * The entities that are queued to be despawned.
+   */
+  get despawns(): ReadonlySet<Entity> {
+    return this.#despawns;
+  }
+
+  /**
+   * Queues an entity to be spawned at the next frame boundary.
+   * @param entity The entity to spawn.
+   */
+  spawn(entity: Entity): LifecycleManager {
+    this.#despawns.delete(entity);
+    this.#spawns.add(entity);
+    return this;
+  }
+
+  /**
+   * Queues an entity to be despawned at the next frame boundary. If the
+   * entity is still queued to be spawned, it is never spawned.
+   * @param entity The entity to despawn.
+   */
+  despawn(entity: Entity): LifecycleManager {
+    if (this.#spawns.delete(entity)) {
+      return this;
+    }
+
+    this.#despawns.add(entity);
+    return this;
+  }
+
+  /**
+   * Applies the queued despawns and spawns. This is called at the frame
+   * boundary, after the fragments of the frame have been applied.
+   */
+  flush(): void {
+    // Despawn the entities that have died this frame.
+    for (const entity of this.engine.entities) {
+      const health = entity.attributes.get("health")?.value;
+
+      if (health !== undefined && health <= 0) {
+        this.#despawns.add(entity);
+      }
+    }
+
+    // Entities are only dequeued once they are applied, so that an error
+    // leaves the rest of the queue for the next frame boundary.
+    for (const entity of [...this.#despawns]) {
+      if (this.engine.entities.has(entity)) {
+        try {
+          entity.runTrigger("destroyed");
+        } catch (cause) {
+          const error = new LifecycleError(
+            entity,
+            `Entity ${entity.id} failed to run its destroyed trigger.`,
+            [cause],
+          );
+          this.dispatchEvent(new CustomEvent("error", { detail: error }));
+        }
+
+        entity.clearFragments();
+        entity.clearEvents();
+        this.engine.removeEntity(entity);
+        this.#dispatch(removeEntity({ id: entity.id }));
+        this.dispatchEvent(new CustomEvent("despawn", { detail: entity }));
+      }
+
+      this.#despawns.delete(entity);
+    }
+
+    for (const entity of [...this.#spawns]) {
+      this.#spawns.delete(entity);
+
+      if (this.engine.getEntity(entity.id)) {
+        const error = new LifecycleError(
+          entity,
+          `Entity ${entity.id} already exists.`,
+        );
+        this.dispatchEvent(new CustomEvent("error", { detail: error }));
+        continue;
+      }
+
+      this.engine.addEntity(entity);
+      entity.addEvent("created");
+      this.#dispatch(addEntity(entity.snapshot()));
+      this.dispatchEvent(new CustomEvent("spawn", { detail: entity }));
+    }
+  }
+}
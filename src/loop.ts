@@ -6,10 +6,18 @@ import {
 } from "./code/movement.js";
 import {
   EntityAttributeItems,
+  type EntityAttributes,
+  EntityError,
   EntityEvent,
   ReadonlyEntityAttributeItems,
 } from "./entity.js";
+import type { AttributeModifier } from "./attributes.js";
+import type { Collider } from "./collision.js";
+import { type FragmentReducerMap, fragmentReducers } from "./fragment.js";
+import type { LifecycleManager } from "./lifecycle.js";
 import type { DeepReadonly } from "./lobby.js";
+import { FrameScheduler, type FrameTiming } from "./scheduler.js";
+import type { EngineSnapshot, EntitySnapshot } from "./snapshot.js";
 
 /**
  * The game engine. The game engine is responsible for running the game.
@@ -23,6 +31,10 @@ export interface Engine extends EventTarget {
   readonly delta: number;
   /** The entities that are in the game. */
   readonly entities: ReadonlySet<Entity>;
+  /** The entities that are quarantined. They are not updated. */
+  readonly quarantined: ReadonlySet<Entity>;
+  /** The systems that are run every frame. */
+  readonly systems: ReadonlySet<System>;
 
   /** The fragments that are added to the engine. */
   readonly fragments: ReadonlySet<Fragment>;
@@ -34,9 +46,46 @@ export interface Engine extends EventTarget {
 
   /**
    * Runs the engine game loop. The game loop is a function that is called every frame.
+   * A frame wakes the sleeping entities, advances their movements, runs their
+   * loops, runs the systems, dispatches the queued events of the entities to
+   * their triggers and finally collects their fragments into the engine.
+   *
+   * When an entity fails to update, an `entityerror` event is emitted, with
+   * the `EntityError` as detail. If an error handler is given, the entity is
+   * skipped for the rest of the frame and its fragments are discarded,
+   * otherwise the error is thrown.
    * @param time The current frame.
+   * @param onError The handler for entities that fail to update.
+   * @throws {EntityError} When an entity fails to update, and there is no
+   * error handler.
    */
-  update(time: number): Promise<void>;
+  update(time: number, onError?: EntityErrorHandler): Promise<void>;
+
+  /**
+   * Gets an entity by its ID.
+   * @param id The ID of the entity.
+   * @returns The entity, or undefined if it is not in the engine.
+   */
+  getEntity(id: string): Entity | undefined;
+
+  /**
+   * Takes a snapshot of the state of the engine and all its entities.
+   * @returns The snapshot of the engine.
+   */
+  snapshot(): EngineSnapshot;
+
+  /**
+   * Restores the state of the engine and all its entities from a snapshot.
+   * Entities in the engine are restored in place, entities that are missing
+   * are created, and entities that are not in the snapshot are removed.
+   * @param snapshot The snapshot to restore.
+   * @param create Creates the entities that are missing from the engine.
+   * @throws {Error} If the snapshot has an unsupported version.
+   */
+  restore(
+    snapshot: EngineSnapshot,
+    create?: (snapshot: EntitySnapshot) => Entity,
+  ): Engine;
 
   /**
    * Adds an entity to the engine.
@@ -49,18 +98,63 @@ export interface Engine extends EventTarget {
    * @param entity The entity to remove from the engine.
    */
   removeEntity(entity: Entity): Engine;
+
+  /**
+   * Adds a system to the engine. Systems run every frame, after the loops of
+   * the entities and before their events are dispatched.
+   * @param system The system to add.
+   * @returns A function that removes the system.
+   */
+  addSystem(system: System): RemoveSystem;
+
+  /**
+   * Quarantines an entity. A quarantined entity stays in the engine, but is
+   * not updated until it is released.
+   * @param entity The entity to quarantine.
+   */
+  quarantine(entity: Entity): Engine;
+
+  /**
+   * Releases an entity from quarantine.
+   * @param entity The entity to release.
+   */
+  release(entity: Entity): Engine;
 }
 
+/**
+ * A handler for entities that fail to update.
+ * @param error The error of the entity.
+ */
+export type EntityErrorHandler = (error: EntityError) => void;
+
 /**
  * Removes a trigger from an entity.
  */
 export type Removetrigger = () => void;
 
+/**
+ * A system. A system is a function that is called every frame, and operates
+ * on all the entities of the engine at once.
+ * @param engine The engine that is running the game.
+ */
+export type System = (engine: Engine) => void;
+
+/**
+ * Removes a system from the engine.
+ */
+export type RemoveSystem = () => void;
+
+/**
+ * Removes a loop from an entity.
+ */
+export type RemoveLoop = () => void;
+
 export interface EntityInit {
   readonly id?: string;
   readonly location: Vector3D;
   readonly orientation?: Orientation3D;
   readonly attributes: EntityAttributeItems;
+  readonly collider?: Collider;
 }
 
 /**
@@ -83,10 +177,10 @@ export interface Entity extends EventTarget {
   readonly events: ReadonlyMap<string, ReadonlySet<EntityEvent>>;
 
   /** The location of the entity. */
-  location: Vector3DArray;
+  readonly location: Vector3D;
 
   /** The orientation of the entity. */
-  orientation: Vector3DArray;
+  readonly orientation: Orientation3D;
 
   /** The attributes of the entity. */
   readonly attributes: ReadonlyEntityAttributeItems;
@@ -94,6 +188,9 @@ export interface Entity extends EventTarget {
   /** The movement of the entity. */
   readonly movement?: Movement;
 
+  /** The collider of the entity. Entities without one do not collide. */
+  collider?: Collider;
+
   /**
    * If this is set, the entity will be asleep until the specified frame has
    * passed. The entity will not be updated during this time.
@@ -101,10 +198,41 @@ export interface Entity extends EventTarget {
   readonly sleepUntil?: number;
 
   /**
-   * Updates the entity. This is called every frame.
+   * Updates the entity by running all the stages of a frame for it.
    */
   update(): void;
 
+  /**
+   * Wakes the entity if its sleep has passed. This is the first stage of a
+   * frame.
+   * @returns Whether the entity is awake.
+   */
+  wake(): boolean;
+
+  /**
+   * Advances the movement of the entity, if it has one.
+   */
+  updateMovement(): Entity;
+
+  /**
+   * Adds a loop to the entity. The loop runs every frame in which the entity
+   * is awake, after its movement is updated.
+   * @param loop The loop to add.
+   * @returns A function that removes the loop.
+   */
+  addLoop(loop: Loop): RemoveLoop;
+
+  /**
+   * Runs the loops of the entity.
+   */
+  runLoops(): Entity;
+
+  /**
+   * Dispatches the queued events of the entity to its triggers. Events queued
+   * while dispatching are delivered on the next frame.
+   */
+  runEvents(): Entity;
+
   /**
    * Sets the location of the entity.
    * @param location The location to set.
@@ -117,6 +245,106 @@ export interface Entity extends EventTarget {
    */
   setOrientation(orientation: Orientation3D): Entity;
 
+  /**
+   * Sets the movement of the entity, replacing and aborting the current one.
+   * @param movement The movement to set, or undefined to stop moving.
+   */
+  setMovement(movement: Movement | undefined): Entity;
+
+  /**
+   * Takes a snapshot of the state of the entity.
+   * @returns The snapshot of the entity.
+   */
+  snapshot(): EntitySnapshot;
+
+  /**
+   * Restores the state of the entity from a snapshot. The pending fragments
+   * and events of the entity are discarded.
+   * @param snapshot The snapshot to restore.
+   * @throws {Error} If the snapshot is of another entity.
+   */
+  restore(snapshot: EntitySnapshot): Entity;
+
+  /**
+   * Sets an attribute of the entity.
+   * @param name The name of the attribute.
+   * @param value The value to set.
+   */
+  setAttribute(name: EntityAttributes, value: number): Entity;
+
+  /**
+   * Commits an attribute to the entity. This is used by the fragment reducers
+   * to apply an attribute fragment, and should not be called by loops.
+   * @param name The name of the attribute.
+   * @param value The value to commit.
+   */
+  commitAttribute(name: EntityAttributes, value: number): Entity;
+
+  /**
+   * Adds a temporary modifier to an attribute of the entity. Modifiers added
+   * in the same frame stack in the order they were added.
+   * @param modifier The modifier to add.
+   * @throws {AttributeError} If the attribute is not defined.
+   */
+  addModifier(modifier: AttributeModifier): Entity;
+
+  /**
+   * Removes a modifier from an attribute of the entity.
+   * @param name The name of the attribute.
+   * @param id The ID of the modifier.
+   */
+  removeModifier(name: EntityAttributes, id: string): Entity;
+
+  /**
+   * Commits a modifier to the entity. This is used by the fragment reducers to
+   * apply a modifier fragment, and should not be called by loops.
+   * @param name The name of the attribute.
+   * @param id The ID of the modifier.
+   * @param modifier The modifier to stack, or undefined to remove it.
+   */
+  commitModifier(
+    name: EntityAttributes,
+    id: string,
+    modifier?: AttributeModifier,
+  ): Entity;
+
+  /**
+   * Removes the modifiers that have expired, and queues an `expired` event
+   * for every one of them. This is done by the engine at the start of every
+   * frame.
+   * @param time The current frame.
+   */
+  expireModifiers(time: number): Entity;
+
+  /**
+   * Clears the record of the attributes that changed. This is done at the
+   * start of every frame, before the modifiers expire, so that the attributes
+   * record the changes of a single frame.
+   */
+  clearChangedAttributes(): Entity;
+
+  /**
+   * Commits a location to the entity. This is used by the fragment reducers to
+   * apply a location fragment, and should not be called by loops.
+   * @param location The location to commit.
+   */
+  commitLocation(location: Vector3D): Entity;
+
+  /**
+   * Commits an orientation to the entity. This is used by the fragment
+   * reducers to apply an orientation fragment, and should not be called by
+   * loops.
+   * @param orientation The orientation to commit.
+   */
+  commitOrientation(orientation: Orientation3D): Entity;
+
+  /**
+   * Gets the pending fragment with the given key, if the entity has one.
+   * @param key The key of the fragment.
+   * @returns The fragment, or undefined if there is none.
+   */
+  getFragment<Value = unknown>(key: string): Fragment<Value> | undefined;
+
   /**
    * Adds one or more fragments to the entity.
    * @param fragments The fragments to add to the entity.
@@ -184,7 +412,12 @@ export type Triggers =
   | "attacked"
   | "built"
   | "created"
-  | "destroyed";
+  | "destroyed"
+  | "expired"
+  | "action"
+  | "completed"
+  | "failed"
+  | "interrupted";
 
 /**
  * A trigger listener. This is called when a trigger is fired.
@@ -209,11 +442,16 @@ export type Loop = (
 /**
  * A fragment. A fragment is a value that is added to an entity. Fragments are
  * used to update the game state.
+ * @see FragmentReducerMap
  */
 export interface Fragment<Value = unknown> {
+  /** The frame in which the fragment was created. */
   frame: number;
+  /** The key of the fragment, such as `Entity[id].location`. */
   key?: string;
+  /** The triggers to fire on the entity once the fragment is applied. */
   triggers?: Triggers[];
+  /** The value of the fragment. */
   value: Value;
 }
 
@@ -243,6 +481,42 @@ export interface LoopResult {
   start: number;
   /** The end time of the loop. */
   end: number;
+  /** The entities that failed during the loop, by their ID. */
+  failures: ReadonlyMap<string, EntityError>;
+}
+
+/**
+ * The policy for entities that fail to update.
+ */
+export enum FaultPolicy {
+  /** Abort the frame. The fragments of the frame are discarded. */
+  Abort = "ABORT",
+  /** Skip the entity for the rest of the frame. */
+  Skip = "SKIP",
+  /** Skip the entity, and quarantine it after too many failures. */
+  Quarantine = "QUARANTINE",
+  /** Despawn the entity through the lifecycle manager of the loop. */
+  Despawn = "DESPAWN",
+}
+
+/**
+ * The options for a game loop.
+ */
+export interface LoopOptions {
+  /** The reducers that apply the fragments at the end of every frame. */
+  reducers?: FragmentReducerMap;
+  /** The policy for entities that fail to update. Defaults to abort. */
+  faultPolicy?: FaultPolicy;
+  /**
+   * The number of failures after which an entity is quarantined, when using
+   * the quarantine policy. Defaults to 3.
+   */
+  maxFailures?: number;
+  /**
+   * The lifecycle manager whose spawns and despawns are applied at the end of
+   * every frame. Required by the despawn policy.
+   */
+  lifecycle?: LifecycleManager;
 }
 
 /**
@@ -250,20 +524,39 @@ export interface LoopResult {
  * @param engine The engine that is running the game.
  * @param entities The entities that are in the game.
  * @param frame The frame to run every frame.
+ * @param options The options for the game loop.
  * @returns The game loop.
+ * @throws {TypeError} If the despawn policy is used without a lifecycle
+ * manager.
  */
 export function createLoop(
   engine: Engine,
   entities: ReadonlySet<DeepReadonly<Entity>>,
   frame: FrameFunction,
+  {
+    reducers = fragmentReducers,
+    faultPolicy = FaultPolicy.Abort,
+    maxFailures = 3,
+    lifecycle,
+  }: LoopOptions = {},
 ): LoopFunction {
+  if (faultPolicy === FaultPolicy.Despawn && !lifecycle) {
+    throw new TypeError("The despawn policy requires a lifecycle manager.");
+  }
+
+  // The number of failures of every entity, for the quarantine policy.
+  const failureCounts: Map<string, number> = new Map();
+
   return async (time: number) => {
     let end: number | undefined;
     const start = performance.now();
+    const failures: Map<string, EntityError> = new Map();
 
     try {
-      // Run the update for the engine
-      await engine.update(time);
+      // Run the update for the engine, which updates all its entities
+      await engine.update(time, (error) => {
+        failures.set(error.entity.id, error);
+      });
     } catch (error) {
       end = performance.now();
 
@@ -278,44 +571,49 @@ export function createLoop(
       });
     }
 
-    // Run the update for all the entities
-    for (const entity of entities) {
-      try {
-        entity.update();
-      } catch (error) {
-        end = performance.now();
-
-        // NOTE: Should the loop continue if an entity throws an error?
-        throw new FrameError({
-          engine,
-          entities: new Set(entities) as Set<Entity>,
-          specifier: "entity",
-          code: "E_UPDATE",
-          errors: [error as Error],
-          start,
-          end,
-        });
+    for (const { entity } of failures.values()) {
+      switch (faultPolicy) {
+        case FaultPolicy.Quarantine: {
+          const count = (failureCounts.get(entity.id) ?? 0) + 1;
+          failureCounts.set(entity.id, count);
+
+          if (count >= maxFailures) {
+            engine.quarantine(entity);
+          }
+
+          break;
+        }
+        case FaultPolicy.Despawn:
+          lifecycle!.despawn(entity);
+          break;
       }
     }
 
-    // Get all the fragments from the engine and entities
-    const fragments = new Set([
-      ...engine.fragments,
-      ...[...entities].flatMap((entity) => [...entity.fragments]),
-    ]);
+    if (failures.size && faultPolicy === FaultPolicy.Abort) {
+      end = performance.now();
+      engine.clearFragments();
+
+      throw new FrameError({
+        engine,
+        entities: new Set(entities) as Set<Entity>,
+        specifier: "entity",
+        code: "E_UPDATE",
+        errors: [...failures.values()],
+        failures,
+        start,
+        end,
+      });
+    }
+
+    // Get all the fragments collected by the engine
+    const fragments = new Set(engine.fragments);
 
     // Clear the fragments for the engine
     engine.clearFragments();
 
-    // Clear the fragments and events for all the entities
-    entities.forEach((entity) =>
-      entity.clearFragments() && entity.clearEvents()
-    );
-
     try {
       // Run the frame for all the collected fragments
       await frame(fragments);
-      end = performance.now();
     } catch (error) {
       end = performance.now();
 
@@ -330,11 +628,39 @@ export function createLoop(
       });
     }
 
+    try {
+      // Commit the collected fragments back into the game state
+      reducers.apply(engine, fragments);
+      // Spawn and despawn the entities at the frame boundary
+      lifecycle?.flush();
+      end = performance.now();
+
+      // Forget the failures of the entities that have been removed
+      for (const id of failureCounts.keys()) {
+        if (!engine.getEntity(id)) {
+          failureCounts.delete(id);
+        }
+      }
+    } catch (error) {
+      end = performance.now();
+
+      throw new FrameError({
+        engine,
+        entities: new Set(entities) as Set<Entity>,
+        specifier: "fragments",
+        code: "E_APPLY",
+        errors: [error as Error],
+        start,
+        end,
+      });
+    }
+
     return {
       time: engine.time,
       fragments,
       start,
       end,
+      failures,
     };
   };
 }
@@ -353,18 +679,30 @@ export class FrameError extends AggregateError {
   readonly code: string;
   /** The errors that occurred. */
   readonly errors: Error[];
+  /** The entities that failed, by their ID. */
+  readonly failures: ReadonlyMap<string, EntityError>;
 
   /** The start time of the loop. */
   readonly start?: number;
   /** The end time of the loop. */
   readonly end?: number;
 
-  constructor({ engine, entities, specifier, code, errors, start, end }: {
+  constructor({
+    engine,
+    entities,
+    specifier,
+    code,
+    errors,
+    failures = new Map(),
+    start,
+    end,
+  }: {
     engine: Engine;
     entities: ReadonlySet<Entity>;
     specifier: string;
     code: string;
     errors: Error[];
+    failures?: ReadonlyMap<string, EntityError>;
     start?: number;
     end?: number;
   }) {
@@ -375,15 +713,16 @@ export class FrameError extends AggregateError {
     this.specifier = specifier;
     this.code = code;
     this.errors = errors;
+    this.failures = failures;
     this.start = start;
     this.end = end;
   }
 }
 
 /**
- * The options for a turn.
+ * The options for a turn. The options of the game loop are passed on to it.
  */
-export interface TurnOptions {
+export interface TurnOptions extends LoopOptions {
   /** The engine that is running the game. */
   engine: DeepReadonly<Engine>;
   /** The entities that are in the game. */
@@ -395,6 +734,8 @@ export interface TurnOptions {
   frame: FrameFunction;
   /** The signal to abort the turn. */
   signal: AbortSignal;
+  /** The scheduler that paces the frames. */
+  scheduler?: FrameScheduler;
 }
 
 /**
@@ -405,65 +746,61 @@ export interface TurnResult {
   time: number;
   /** The fragments that were run. */
   fragments: ReadonlySet<Fragment>;
+  /** The timing of the frame, relative to the frame budget. */
+  timing: FrameTiming;
 }
 
 /**
- * Runs a turn. A turn collects all the fragments from the engine and entities,
- * runs the frame function, and returns the results.
+ * Runs a turn. A turn waits until the next frame is due, collects all the
+ * fragments from the engine and entities, runs the frame function, and
+ * returns the results.
  * @param options The options for the turn.
  * @param options.engine The engine that is running the game.
  * @param options.entities The entities that are in the game.
  * @param options.frame The frame to run every frame.
  * @param options.signal The signal to abort the turn.
+ * @param options.scheduler The scheduler that paces the frames.
  * @returns An async iterator that yields the results of the turn.
+ * @throws {TypeError} If the despawn policy is used without a lifecycle
+ * manager.
  */
 export function turn({
   engine,
   entities,
   frame,
   signal,
+  scheduler = new FrameScheduler(),
+  ...options
 }: TurnOptions): AsyncIterator<TurnResult> {
-  const loop = createLoop(engine, entities, frame);
+  const loop = createLoop(engine, entities, frame, options);
 
   return {
     async next() {
-      if (signal.aborted) {
+      if (!(await scheduler.wait(signal))) {
         return {
           done: true,
           value: undefined,
         };
       }
 
-      // TODO: wait if the frame is too fast
-
+      const time = scheduler.nextFrame(engine.time);
       let result: LoopResult;
 
       try {
-        result = await loop(engine.time);
+        result = await loop(time);
       } catch (error) {
         throw new AggregateError(
           [error],
-          `Error running turn at frame ${engine.time}`,
+          `Error running turn at frame ${time}`,
         );
       }
 
-      const { fragments } = result;
-
-      if (!fragments?.size) {
-        return {
-          done: false,
-          value: {
-            time: engine.time,
-            fragments: fragments ?? new Set(),
-          },
-        };
-      }
-
       return {
         done: false,
         value: {
-          time: engine.time,
-          fragments,
+          time: result.time,
+          fragments: result.fragments ?? new Set(),
+          timing: scheduler.timing(result),
         },
       };
     },
@@ -0,0 +1,524 @@
+import { createMoveAction } from "./code/actions.js";
+import { Vector3D } from "./code/movement.js";
+import { HightMap2D, type Hightmap3D } from "./proc.js";
+
+/** The default maximum slope that entities can walk up or down. */
+export const DEFAULT_MAX_SLOPE = 1;
+
+/** The default maximum number of cells that a search expands. */
+export const DEFAULT_MAX_EXPANDED = 65536;
+
+/** A cell of the navigation grid. */
+export type Cell = [x: number, y: number];
+
+/**
+ * The offsets of the neighbors of a cell: orthogonal first, then diagonal.
+ * Searches expand the neighbors in this order, so that ties are broken the
+ * same way by every search.
+ */
+export const neighborOffsets: readonly Cell[] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+export interface NavigationGridOptions {
+  /** The ground of the arena. */
+  map: HightMap2D;
+  /**
+   * The maximum slope between two neighboring cells: the change in height
+   * per unit of horizontal distance. Defaults to `DEFAULT_MAX_SLOPE`.
+   */
+  maxSlope?: number;
+  /** The cells that are blocked, such as by structures. */
+  blocked?: Iterable<Cell>;
+}
+
+export interface PathOptions {
+  /**
+   * The maximum number of cells that the search expands before it gives up.
+   * Defaults to `DEFAULT_MAX_EXPANDED`.
+   */
+  maxExpanded?: number;
+}
+
+/**
+ * A navigation grid over the ground of an arena. Every cell of the height map
+ * is a cell of the grid, at its x and y, with its height as z. Entities can
+ * walk between neighboring cells, including diagonally, unless either is
+ * blocked or the slope between them is too steep. Diagonal moves cannot cut
+ * the corners of blocked or steep cells.
+ *
+ * @emits changed When cells are blocked or unblocked, or their height
+ * changes, with the cells as detail.
+ *
+ * ```ts
+ * const grid = new NavigationGrid({ map: heightmap, maxSlope: 0.5 });
+ * grid.block([4, 2]);
+ *
+ * const path = grid.findPath(entity.location, new Vector3D([20, 12, 0]));
+ *
+ * // Let scripts move along paths
+ * handler.add({ move: grid.action });
+ * ```
+ */
+export class NavigationGrid extends EventTarget {
+  /**
+   * Build a navigation grid from a layer of a 3D height map.
+   * @param map The 3D height map.
+   * @param layer The z index of the layer.
+   * @param options The options of the grid.
+   * @returns A new navigation grid.
+   */
+  static fromHightmap3D(
+    map: Hightmap3D,
+    layer = 0,
+    options: Omit<NavigationGridOptions, "map"> = {},
+  ): NavigationGrid {
+    const offset = layer * map.width * map.height;
+    const field = map.field.slice(offset, offset + map.width * map.height);
+
+    return new NavigationGrid({
+      ...options,
+      map: new HightMap2D(map.seed, map.width, map.height, map.scale, field),
+    });
+  }
+
+  /** The number of cells along the x axis. */
+  readonly width: number;
+  /** The number of cells along the y axis. */
+  readonly height: number;
+  /** The maximum slope between two neighboring cells. */
+  readonly maxSlope: number;
+
+  /** The ground of the arena. */
+  #map: HightMap2D;
+  /** Whether every cell is blocked, by cell index. */
+  #blocked: Uint8Array;
+  #version = 0;
+
+  constructor({
+    map,
+    maxSlope = DEFAULT_MAX_SLOPE,
+    blocked = [],
+  }: NavigationGridOptions) {
+    super();
+    this.width = map.width;
+    this.height = map.height;
+    this.maxSlope = maxSlope;
+    this.#map = map;
+    this.#blocked = new Uint8Array(map.width * map.height);
+
+    for (const [x, y] of blocked) {
+      if (this.contains(x, y)) {
+        this.#blocked[this.indexOf(x, y)] = 1;
+      }
+    }
+  }
+
+  /**
+   * The version of the grid. It changes whenever cells are blocked or
+   * unblocked, or their height changes, so that anything derived from the
+   * grid can be invalidated.
+   */
+  get version(): number {
+    return this.#version;
+  }
+
+  /**
+   * The move action, which moves the entity along the path to its
+   * destination. Destinations that cannot be reached are rejected.
+   */
+  readonly action = createMoveAction((from, to) => this.findPath(from, to));
+
+  /**
+   * Whether a cell is inside the grid.
+   * @param x The x of the cell.
+   * @param y The y of the cell.
+   */
+  contains(x: number, y: number): boolean {
+    return Number.isInteger(x) && Number.isInteger(y) && x >= 0 &&
+      x < this.width && y >= 0 && y < this.height;
+  }
+
+  /**
+   * The height of the ground at a cell.
+   * @param x The x of the cell.
+   * @param y The y of the cell.
+   */
+  heightAt(x: number, y: number): number {
+    return this.#map.get(x, y);
+  }
+
+  /**
+   * Changes the height of the ground at a cell, such as when the terrain is
+   * deformed.
+   * @param x The x of the cell.
+   * @param y The y of the cell.
+   * @param height The new height.
+   */
+  setHeight(x: number, y: number, height: number): NavigationGrid {
+    if (!this.contains(x, y)) {
+      throw new Error(`Out of bounds: ${x}, ${y}`);
+    } else if (this.#map.get(x, y) === height) {
+      return this;
+    }
+
+    this.#map.set(x, y, height);
+    return this.#changed([[x, y]]);
+  }
+
+  /**
+   * Whether a cell is blocked. Cells outside the grid are blocked.
+   * @param x The x of the cell.
+   * @param y The y of the cell.
+   */
+  isBlocked(x: number, y: number): boolean {
+    return !this.contains(x, y) || this.#blocked[this.indexOf(x, y)] === 1;
+  }
+
+  /**
+   * Blocks cells, such as when a structure is built on them.
+   * @param cells The cells to block.
+   */
+  block(...cells: Cell[]): NavigationGrid {
+    return this.#setBlocked(cells, 1);
+  }
+
+  /**
+   * Unblocks cells, such as when a structure is destroyed.
+   * @param cells The cells to unblock.
+   */
+  unblock(...cells: Cell[]): NavigationGrid {
+    return this.#setBlocked(cells, 0);
+  }
+
+  /**
+   * Gets the cell of a location.
+   * @param location The location.
+   * @returns The cell, or undefined if the location is outside the grid.
+   */
+  cellOf(location: Vector3D): Cell | undefined {
+    const x = Math.floor(location.x);
+    const y = Math.floor(location.y);
+    return this.contains(x, y) ? [x, y] : undefined;
+  }
+
+  /**
+   * Gets the index of a cell, for arrays with an item per cell of the grid.
+   * @param x The x of the cell.
+   * @param y The y of the cell.
+   */
+  indexOf(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  /**
+   * Gets the cell of an index.
+   * @param index The index of the cell.
+   */
+  cellAt(index: number): Cell {
+    return [index % this.width, Math.floor(index / this.width)];
+  }
+
+  /**
+   * Whether an entity can walk from a cell to a neighboring cell.
+   * @param from The cell to walk from.
+   * @param to The neighboring cell to walk to.
+   */
+  canWalk([fromX, fromY]: Cell, [toX, toY]: Cell): boolean {
+    const dx = toX - fromX;
+    const dy = toY - fromY;
+
+    if (
+      Math.abs(dx) > 1 || Math.abs(dy) > 1 || this.isBlocked(toX, toY) ||
+      !this.#isWalkable(fromX, fromY, toX, toY)
+    ) {
+      return false;
+    }
+
+    // Diagonal moves must be able to go around either corner.
+    return dx === 0 || dy === 0 ||
+      (this.#isOpen(fromX, fromY, fromX + dx, fromY) &&
+        this.#isOpen(fromX, fromY, fromX, fromY + dy));
+  }
+
+  /**
+   * The cells that an entity can walk to from a cell.
+   * @param cell The cell to walk from.
+   */
+  *neighbors(cell: Cell): IterableIterator<Cell> {
+    for (const [dx, dy] of neighborOffsets) {
+      const neighbor: Cell = [cell[0] + dx, cell[1] + dy];
+
+      if (this.canWalk(cell, neighbor)) {
+        yield neighbor;
+      }
+    }
+  }
+
+  /**
+   * The cost of walking between two neighboring cells: the distance between
+   * their grounds, so that climbing costs more than walking on flat ground.
+   * @param from The cell to walk from.
+   * @param to The neighboring cell to walk to.
+   */
+  cost([fromX, fromY]: Cell, [toX, toY]: Cell): number {
+    return Math.hypot(
+      toX - fromX,
+      toY - fromY,
+      this.#map.get(toX, toY) - this.#map.get(fromX, fromY),
+    );
+  }
+
+  /**
+   * Finds the shortest path between two locations with A*. The path starts at
+   * `from`, goes through the cells in between on the ground, and ends at
+   * `to` on the ground. Points along straight lines are merged.
+   * @param from The location to start from.
+   * @param to The destination.
+   * @param options The options of the search.
+   * @returns The points of the path, or undefined if the destination cannot be
+   * reached.
+   */
+  findPath(
+    from: Vector3D,
+    to: Vector3D,
+    { maxExpanded = DEFAULT_MAX_EXPANDED }: PathOptions = {},
+  ): Vector3D[] | undefined {
+    const start = this.cellOf(from);
+    const goal = this.cellOf(to);
+
+    if (!start || !goal || this.isBlocked(...goal)) {
+      return undefined;
+    }
+
+    const cells = this.findCells(start, goal, { maxExpanded });
+    return cells && this.toPath(from, to, cells);
+  }
+
+  /**
+   * Converts the cells of a path to its points. The path starts at `from`,
+   * goes through the cells in between on the ground, and ends at `to` on the
+   * ground. Cells along straight lines are merged.
+   * @param from The location to start from.
+   * @param to The destination, in the last cell.
+   * @param cells The cells of the path, including both ends.
+   * @returns The points of the path.
+   */
+  toPath(from: Vector3D, to: Vector3D, cells: Cell[]): Vector3D[] {
+    const [goalX, goalY] = cells[cells.length - 1];
+    const points = simplify(cells).slice(1, -1).map(([x, y]) =>
+      new Vector3D([x, y, this.#map.get(x, y)])
+    );
+
+    return [
+      from,
+      ...points,
+      new Vector3D([to.x, to.y, this.#map.get(goalX, goalY)]),
+    ];
+  }
+
+  /**
+   * Finds the shortest path between two cells with A*.
+   * @param start The cell to start from.
+   * @param goal The cell to reach.
+   * @param options The options of the search.
+   * @returns The cells of the path, including both ends, or undefined if the
+   * goal cannot be reached.
+   */
+  findCells(
+    start: Cell,
+    goal: Cell,
+    { maxExpanded = DEFAULT_MAX_EXPANDED }: PathOptions = {},
+  ): Cell[] | undefined {
+    const startIndex = this.indexOf(...start);
+    const goalIndex = this.indexOf(...goal);
+    const costs = new Float64Array(this.width * this.height).fill(Infinity);
+    const parents = new Int32Array(this.width * this.height).fill(-1);
+    const closed = new Uint8Array(this.width * this.height);
+    const open = new MinHeap();
+    let expanded = 0;
+
+    costs[startIndex] = 0;
+    open.push(startIndex, this.#heuristic(start, goal));
+
+    while (open.size) {
+      const index = open.pop();
+
+      if (index === goalIndex) {
+        return this.#trace(parents, goalIndex);
+      } else if (closed[index]) {
+        continue;
+      } else if ((expanded += 1) > maxExpanded) {
+        return undefined;
+      }
+
+      closed[index] = 1;
+      const cell = this.cellAt(index);
+
+      for (const neighbor of this.neighbors(cell)) {
+        const next = this.indexOf(...neighbor);
+        const cost = costs[index] + this.cost(cell, neighbor);
+
+        if (!closed[next] && cost < costs[next]) {
+          costs[next] = cost;
+          parents[next] = index;
+          open.push(next, cost + this.#heuristic(neighbor, goal));
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The octile distance between two cells, which never overestimates the
+   * cost between them.
+   */
+  #heuristic([fromX, fromY]: Cell, [toX, toY]: Cell): number {
+    const dx = Math.abs(toX - fromX);
+    const dy = Math.abs(toY - fromY);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  }
+
+  #trace(parents: Int32Array, goal: number): Cell[] {
+    const cells: Cell[] = [];
+
+    for (let index = goal; index !== -1; index = parents[index]) {
+      cells.push(this.cellAt(index));
+    }
+
+    return cells.reverse();
+  }
+
+  #isWalkable(fromX: number, fromY: number, toX: number, toY: number) {
+    const rise = Math.abs(this.#map.get(toX, toY) - this.#map.get(fromX, fromY));
+    return rise <= this.maxSlope * Math.hypot(toX - fromX, toY - fromY);
+  }
+
+  #isOpen(fromX: number, fromY: number, toX: number, toY: number) {
+    return !this.isBlocked(toX, toY) &&
+      this.#isWalkable(fromX, fromY, toX, toY);
+  }
+
+  #setBlocked(cells: Cell[], value: 0 | 1): NavigationGrid {
+    const changed: Cell[] = [];
+
+    for (const [x, y] of cells) {
+      if (this.contains(x, y) && this.#blocked[this.indexOf(x, y)] !== value) {
+        this.#blocked[this.indexOf(x, y)] = value;
+        changed.push([x, y]);
+      }
+    }
+
+    return changed.length ? this.#changed(changed) : this;
+  }
+
+  #changed(cells: Cell[]): NavigationGrid {
+    this.#version += 1;
+    this.dispatchEvent(new CustomEvent("changed", { detail: cells }));
+    return this;
+  }
+
+}
+
+/**
+ * Merge the cells of a path that lie on a straight line between their
+ * neighbors, keeping both ends.
+ */
+function simplify(cells: Cell[]): Cell[] {
+  if (cells.length < 3) {
+    return cells;
+  }
+
+  const result: Cell[] = [cells[0]];
+
+  for (let i = 1; i < cells.length - 1; i += 1) {
+    const [previousX, previousY] = cells[i - 1];
+    const [x, y] = cells[i];
+    const [nextX, nextY] = cells[i + 1];
+
+    if (x - previousX !== nextX - x || y - previousY !== nextY - y) {
+      result.push(cells[i]);
+    }
+  }
+
+  result.push(cells[cells.length - 1]);
+  return result;
+}
+
+/**
+ * A binary min-heap of cell indices by priority. Ties are broken by insertion
+ * order, so that searches are deterministic.
+ */
+export class MinHeap {
+  #items: { index: number; priority: number; order: number }[] = [];
+  #order = 0;
+
+  get size(): number {
+    return this.#items.length;
+  }
+
+  push(index: number, priority: number): void {
+    const items = this.#items;
+    items.push({ index, priority, order: this.#order++ });
+
+    for (let i = items.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+
+      if (!this.#less(i, parent)) {
+        break;
+      }
+
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.#items;
+    const top = items[0];
+    const last = items.pop()!;
+
+    if (items.length) {
+      items[0] = last;
+
+      for (let i = 0;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+
+        if (left < items.length && this.#less(left, smallest)) {
+          smallest = left;
+        }
+
+        if (right < items.length && this.#less(right, smallest)) {
+          smallest = right;
+        }
+
+        if (smallest === i) {
+          break;
+        }
+
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+
+    return top.index;
+  }
+
+  #less(a: number, b: number): boolean {
+    const itemA = this.#items[a];
+    const itemB = this.#items[b];
+
+    return itemA.priority < itemB.priority ||
+      (itemA.priority === itemB.priority && itemA.order < itemB.order);
+  }
+}
@@ -1,5 +1,9 @@
-import Noise from "noisejs";
-import { Vector3D } from "./code/movement";
+import noisejs from "noisejs";
+import { Vector3D } from "./code/movement.js";
+
+// noisejs exports the class as the `Noise` property of the module, unlike its
+// type declarations.
+const { Noise } = noisejs as unknown as { Noise: typeof noisejs };
 
 /**
  * A hight field is a 2D array of numbers.
@@ -11,12 +15,123 @@ export type HightField = Float32Array;
  * @param seed The seed of the noise.
  * @returns The noise generator.
  */
-export function createNoise(seed: number): Noise {
+export function createNoise(seed: number): noisejs {
   return new Noise(seed);
 }
 
 /**
- * A 2D hight map.
+ * How two hight maps are blended.
+ */
+export enum BlendMode {
+  /** The average of the hights. */
+  Average = "average",
+  /** The highest of the hights. */
+  Max = "max",
+  /** The lowest of the hights. */
+  Min = "min",
+  /** The sum of the hights. */
+  Add = "add",
+  /** The product of the hights. */
+  Multiply = "multiply",
+  /**
+   * The hight, scaled by the other hight map as a mask from 0 to 1. Mask
+   * values outside that range are clamped.
+   */
+  Mask = "mask",
+}
+
+/** The blend functions, by mode. */
+const blendModes: Record<BlendMode, (a: number, b: number) => number> = {
+  [BlendMode.Average]: (a, b) => (a + b) / 2,
+  [BlendMode.Max]: (a, b) => Math.max(a, b),
+  [BlendMode.Min]: (a, b) => Math.min(a, b),
+  [BlendMode.Add]: (a, b) => a + b,
+  [BlendMode.Multiply]: (a, b) => a * b,
+  [BlendMode.Mask]: (a, b) => a * Math.min(1, Math.max(0, b)),
+};
+
+/**
+ * How hights are interpolated between cells.
+ */
+export enum Interpolation {
+  /** Linear along x and y. Fast, with creases along the cell edges. */
+  Bilinear = "bilinear",
+  /** Catmull-Rom splines through 4x4 cells. Smooth, but may overshoot. */
+  Bicubic = "bicubic",
+}
+
+export interface RaycastOptions {
+  /**
+   * The distance between the samples along the ray, in cells. Features that
+   * are thinner than the step can be missed. Defaults to 0.25.
+   */
+  step?: number;
+  /**
+   * How far a point must be below the ground for the ray to hit it, so that
+   * points on the ground can see each other despite rounding errors. Hits
+   * within this distance of either end of the ray are ignored as well.
+   * Defaults to a millionth of the range of the hights of the map.
+   */
+  epsilon?: number;
+}
+
+/** The default tolerance of raycasts, relative to the range of the hights. */
+const raycastTolerance = 1e-6;
+
+/** The offsets of the orthogonal neighbors of a cell. */
+const orthogonalOffsets = [[1, 0], [-1, 0], [0, 1], [0, -1]] as const;
+
+export interface ThermalErosionOptions {
+  /** The number of iterations. Defaults to 50. */
+  iterations?: number;
+  /**
+   * The largest hight difference between neighboring cells that is stable.
+   * Defaults to 4 times the hight range over the longest side of the map.
+   */
+  talus?: number;
+  /** The part of the unstable material that slides per iteration. Defaults to 0.5. */
+  rate?: number;
+}
+
+export interface HydraulicErosionOptions {
+  /** The number of droplets. Defaults to a quarter of the cells. */
+  droplets?: number;
+  /** The seed of the droplets. Defaults to the seed of the hight map, or 0. */
+  seed?: number;
+  /** The maximum number of steps of a droplet. Defaults to 30. */
+  lifetime?: number;
+  /**
+   * How much a droplet keeps its direction instead of following the slope,
+   * from 0 to 1. Defaults to 0.05.
+   */
+  inertia?: number;
+  /** How much sediment a droplet can carry. Defaults to 4. */
+  capacity?: number;
+  /** The least sediment a droplet can carry on flat ground. Defaults to 0.01. */
+  minCapacity?: number;
+  /** The part of the free capacity that is eroded per step. Defaults to 0.3. */
+  erosion?: number;
+  /** The part of the excess sediment that is deposited per step. Defaults to 0.3. */
+  deposition?: number;
+  /** The part of the water that evaporates per step. Defaults to 0.01. */
+  evaporation?: number;
+  /** How much droplets speed up downhill. Defaults to 4. */
+  gravity?: number;
+}
+
+/**
+ * A 2D hight map. The post-processing operators return a new hight map, so
+ * that they can be chained. The queries sample the hights between cells, with
+ * the edges clamped, for smooth ground-following, vision and ranged attacks.
+ *
+ * ```ts
+ * const map = terrain.generate()
+ *   .hydraulicErosion({ droplets: 20_000 })
+ *   .thermalErosion()
+ *   .blend(plateau, BlendMode.Max)
+ *   .terrace(6, 0.3)
+ *   .normalize(0, 24);
+ * ```
  */
 export class HightMap2D {
   /** The seed of the hight map. */
@@ -30,6 +145,12 @@ export class HightMap2D {
   /** The hight field of the hight map. */
   readonly field: HightField;
 
+  /**
+   * The lowest and highest hight, which the tolerance of raycasts is relative
+   * to. It is computed by the first raycast, and reset when a hight is set.
+   */
+  #range?: [min: number, max: number];
+
   constructor(
     seed: number | null,
     width: number,
@@ -73,36 +194,387 @@ export class HightMap2D {
    */
   set(x: number, y: number, hight: number): void {
     this.field[y * this.width + x] = hight;
+    this.#range = undefined;
   }
 
   /**
-   * Merge this hight map with the given hight map. The hight of the resulting
-   * hight map is the average of the hight of the two hight maps.
-   * @param other The other hight map.
-   * @returns The merged hight map.
+   * Sample the hight at a fractional position, interpolated between the
+   * cells. Positions beyond the edges are clamped to the edges.
+   * @param x The x position.
+   * @param y The y position.
+   * @param interpolation How the hights are interpolated.
+   * @returns The hight at the given position.
    */
-  merge(other: HightMap2D): HightMap2D {
-    const newField = new Float32Array(this.width * this.height);
+  sample(
+    x: number,
+    y: number,
+    interpolation = Interpolation.Bilinear,
+  ): number {
+    const cx = Math.floor(x);
+    const cy = Math.floor(y);
+    const fx = x - cx;
+    const fy = y - cy;
 
-    for (let y = 0; y < this.height; y += 1) {
-      for (let x = 0; x < this.width; x += 1) {
-        const myHeight = this.field[y * this.width + x];
-        const otherHeight = other.get(x, y);
-        const hight = myHeight > otherHeight ? myHeight / 2 : otherHeight / 2;
+    if (interpolation === Interpolation.Bicubic) {
+      const rows: number[] = [];
 
-        newField[y * this.width + x] = hight;
+      for (let dy = -1; dy <= 2; dy += 1) {
+        rows.push(
+          catmullRom(
+            this.#clamped(cx - 1, cy + dy),
+            this.#clamped(cx, cy + dy),
+            this.#clamped(cx + 1, cy + dy),
+            this.#clamped(cx + 2, cy + dy),
+            fx,
+          ),
+        );
       }
+
+      return catmullRom(rows[0], rows[1], rows[2], rows[3], fy);
     }
 
-    return new HightMap2D(
-      null,
-      this.width,
-      this.height,
-      this.scale,
-      newField,
+    const top = this.#clamped(cx, cy) * (1 - fx) +
+      this.#clamped(cx + 1, cy) * fx;
+    const bottom = this.#clamped(cx, cy + 1) * (1 - fx) +
+      this.#clamped(cx + 1, cy + 1) * fx;
+
+    return top * (1 - fy) + bottom * fy;
+  }
+
+  /**
+   * The surface normal at a fractional position, from the central
+   * differences of the sampled hights, with cells 1 unit wide.
+   * @param x The x position.
+   * @param y The y position.
+   * @param interpolation How the hights are interpolated.
+   * @returns The unit normal, pointing up.
+   */
+  normal(
+    x: number,
+    y: number,
+    interpolation = Interpolation.Bilinear,
+  ): Vector3D {
+    const dx = (this.sample(x + 1, y, interpolation) -
+      this.sample(x - 1, y, interpolation)) / 2;
+    const dy = (this.sample(x, y + 1, interpolation) -
+      this.sample(x, y - 1, interpolation)) / 2;
+
+    return new Vector3D([-dx, -dy, 1]).normalizeInPlace();
+  }
+
+  /**
+   * The slope angle at a fractional position.
+   * @param x The x position.
+   * @param y The y position.
+   * @param interpolation How the hights are interpolated.
+   * @returns The angle between the surface and the horizontal, in radians,
+   * from 0 for flat ground to π/2 for a wall.
+   */
+  slope(
+    x: number,
+    y: number,
+    interpolation = Interpolation.Bilinear,
+  ): number {
+    return Math.acos(Math.min(1, this.normal(x, y, interpolation).z));
+  }
+
+  /**
+   * Cast a ray from one point to another, and find where it first hits the
+   * ground. Beyond the edges, the ground continues at the hight of the edges.
+   * @param from The start of the ray.
+   * @param to The end of the ray.
+   * @param options The options of the raycast.
+   * @returns The point where the ray hits the ground, or undefined if it does
+   * not. A ray that starts below the ground, by more than the epsilon, hits
+   * it at the start.
+   */
+  raycast(
+    from: Vector3D,
+    to: Vector3D,
+    { step, epsilon }: RaycastOptions = {},
+  ): Vector3D | undefined {
+    if (epsilon === undefined) {
+      const [min, max] = this.#range ??= hightRange(this.field);
+      epsilon = raycastTolerance * (max - min);
+    }
+
+    return raycast(from, to, (x, y) => this.sample(x, y), { step, epsilon });
+  }
+
+  /**
+   * Whether two points can see each other over the ground.
+   * @param from The first point.
+   * @param to The second point.
+   * @param options The options of the raycast.
+   */
+  lineOfSight(
+    from: Vector3D,
+    to: Vector3D,
+    options: RaycastOptions = {},
+  ): boolean {
+    return !this.raycast(from, to, options);
+  }
+
+  /**
+   * Blend this hight map with the given hight map.
+   * @param other The other hight map, of the same size.
+   * @param mode How the hights are combined. Defaults to the average.
+   * @returns The blended hight map.
+   */
+  blend(other: HightMap2D, mode = BlendMode.Average): HightMap2D {
+    if (other.width !== this.width || other.height !== this.height) {
+      throw new Error(
+        `Cannot blend a ${other.width}x${other.height} hight map into a ` +
+          `${this.width}x${this.height} hight map.`,
+      );
+    }
+
+    const blend = blendModes[mode];
+    return this.#map((hight, i) => blend(hight, other.field[i]), null);
+  }
+
+  /**
+   * Rescale the hights linearly to the given range. A flat hight map is
+   * lowered to the minimum.
+   * @param min The lowest hight.
+   * @param max The highest hight.
+   * @returns The normalized hight map.
+   */
+  normalize(min = 0, max = 1): HightMap2D {
+    const [low, high] = hightRange(this.field);
+    const range = high - low;
+
+    return this.#map((hight) =>
+      range === 0 ? min : min + ((hight - low) / range) * (max - min)
     );
   }
 
+  /**
+   * Limit the hights to the given range.
+   * @param min The lowest hight.
+   * @param max The highest hight.
+   * @returns The clamped hight map.
+   */
+  clamp(min: number, max: number): HightMap2D {
+    return this.#map((hight) => Math.min(max, Math.max(min, hight)));
+  }
+
+  /**
+   * Smooth the hight map with a box blur. Cells beyond the edges repeat the
+   * edge.
+   * @param radius The radius of the blur, in cells.
+   * @returns The blurred hight map.
+   */
+  blur(radius = 1): HightMap2D {
+    if (!Number.isInteger(radius) || radius < 0) {
+      throw new Error("The radius must be a whole number of cells.");
+    }
+
+    const { width, height } = this;
+    const horizontal = boxBlur(this.field, width, height, radius, 1, width);
+    const field = boxBlur(horizontal, height, width, radius, width, 1);
+
+    return new HightMap2D(this.seed, width, height, this.scale, field);
+  }
+
+  /**
+   * Flatten the hight map into terraces of equal height. The lowest terrace
+   * is at the lowest hight, and the highest at the highest hight.
+   * @param levels The number of terraces.
+   * @param smoothness The part of every terrace, from 0 to 1, that ramps up
+   * to the next one. At 0, the terraces are sharp steps.
+   * @returns The terraced hight map.
+   */
+  terrace(levels: number, smoothness = 0): HightMap2D {
+    if (!Number.isInteger(levels) || levels < 1) {
+      throw new Error("There must be at least 1 terrace.");
+    } else if (smoothness < 0 || smoothness > 1) {
+      throw new Error("The smoothness must be between 0 and 1.");
+    }
+
+    const [low, high] = hightRange(this.field);
+    const range = high - low;
+
+    return this.#map((hight) => {
+      if (range === 0 || levels === 1) {
+        return low;
+      }
+
+      const level = ((hight - low) / range) * levels;
+      const step = Math.min(levels - 1, Math.floor(level));
+      const ramp = smoothness === 0 || step === levels - 1
+        ? 0
+        : Math.min(1, Math.max(0, (level - step - 1 + smoothness) / smoothness));
+
+      return low + ((step + ramp) / (levels - 1)) * range;
+    });
+  }
+
+  /**
+   * Erode the hight map by letting material slide down slopes that are
+   * steeper than the talus, until they settle. This wears down cliffs and
+   * spikes into scree slopes. The total hight is preserved.
+   * @param options The options of the erosion.
+   * @returns The eroded hight map.
+   */
+  thermalErosion({
+    iterations = 50,
+    talus,
+    rate = 0.5,
+  }: ThermalErosionOptions = {}): HightMap2D {
+    const { width, height } = this;
+
+    if (talus === undefined) {
+      const [min, max] = hightRange(this.field);
+      talus = ((max - min) * 4) / Math.max(width, height);
+    }
+
+    const field = new Float32Array(this.field);
+    const delta = new Float32Array(field.length);
+    const neighbors: number[] = [];
+
+    for (let iteration = 0; iteration < iterations; iteration += 1) {
+      delta.fill(0);
+
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          const index = y * width + x;
+          const hight = field[index];
+          let steepest = 0;
+          let excess = 0;
+          neighbors.length = 0;
+
+          for (const [dx, dy] of orthogonalOffsets) {
+            const nx = x + dx;
+            const ny = y + dy;
+
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
+              continue;
+            }
+
+            const difference = hight - field[ny * width + nx];
+
+            if (difference > talus) {
+              neighbors.push(ny * width + nx);
+              steepest = Math.max(steepest, difference);
+              excess += difference - talus;
+            }
+          }
+
+          if (!neighbors.length) {
+            continue;
+          }
+
+          // Move material to the lower neighbors, by how far they are below
+          // the talus.
+          const amount = (rate * (steepest - talus)) / 2;
+
+          for (const neighbor of neighbors) {
+            const share = (amount * (hight - field[neighbor] - talus)) / excess;
+            delta[index] -= share;
+            delta[neighbor] += share;
+          }
+        }
+      }
+
+      for (let i = 0; i < field.length; i += 1) {
+        field[i] += delta[i];
+      }
+    }
+
+    return new HightMap2D(this.seed, width, height, this.scale, field);
+  }
+
+  /**
+   * Erode the hight map by simulating rain droplets that run downhill,
+   * picking up sediment where they speed up and depositing it where they slow
+   * down. This carves gullies and valleys, and fills basins. The droplets are
+   * seeded, so the erosion is deterministic.
+   * @param options The options of the erosion.
+   * @returns The eroded hight map.
+   */
+  hydraulicErosion({
+    droplets = Math.ceil(this.size / 4),
+    seed = this.seed ?? 0,
+    lifetime = 30,
+    inertia = 0.05,
+    capacity = 4,
+    minCapacity = 0.01,
+    erosion = 0.3,
+    deposition = 0.3,
+    evaporation = 0.01,
+    gravity = 4,
+  }: HydraulicErosionOptions = {}): HightMap2D {
+    const { width, height } = this;
+    const field = new Float32Array(this.field);
+    const random = createRandom(seed);
+
+    if (width < 2 || height < 2) {
+      return new HightMap2D(this.seed, width, height, this.scale, field);
+    }
+
+    for (let droplet = 0; droplet < droplets; droplet += 1) {
+      let x = random() * (width - 1);
+      let y = random() * (height - 1);
+      let dx = 0;
+      let dy = 0;
+      let speed = 1;
+      let water = 1;
+      let sediment = 0;
+
+      for (let step = 0; step < lifetime; step += 1) {
+        const cx = Math.floor(x);
+        const cy = Math.floor(y);
+        const fx = x - cx;
+        const fy = y - cy;
+        const [hight, gx, gy] = gradientAt(field, width, x, y);
+
+        dx = dx * inertia - gx * (1 - inertia);
+        dy = dy * inertia - gy * (1 - inertia);
+        const length = Math.hypot(dx, dy);
+
+        if (length === 0) {
+          break;
+        }
+
+        dx /= length;
+        dy /= length;
+        x += dx;
+        y += dy;
+
+        if (x < 0 || x >= width - 1 || y < 0 || y >= height - 1) {
+          break;
+        }
+
+        const difference = gradientAt(field, width, x, y)[0] - hight;
+        const carry = Math.max(
+          -difference * speed * water * capacity,
+          minCapacity,
+        );
+
+        // Uphill, the droplet fills the pit it leaves; downhill, it erodes
+        // the cell it leaves, by no more than the drop.
+        const change = sediment > carry || difference > 0
+          ? difference > 0
+            ? Math.min(difference, sediment)
+            : (sediment - carry) * deposition
+          : -Math.min((carry - sediment) * erosion, -difference);
+
+        sediment -= change;
+        const index = cy * width + cx;
+        field[index] += change * (1 - fx) * (1 - fy);
+        field[index + 1] += change * fx * (1 - fy);
+        field[index + width] += change * (1 - fx) * fy;
+        field[index + width + 1] += change * fx * fy;
+
+        speed = Math.sqrt(Math.max(0, speed * speed - difference * gravity));
+        water *= 1 - evaporation;
+      }
+    }
+
+    return new HightMap2D(this.seed, width, height, this.scale, field);
+  }
+
   /**
    * Copy this hight map.
    * @returns The copied hight map.
@@ -117,6 +589,31 @@ export class HightMap2D {
     );
   }
 
+  /**
+   * Get the hight of a cell, clamped to the edges.
+   */
+  #clamped(x: number, y: number): number {
+    const cx = Math.min(this.width - 1, Math.max(0, x));
+    const cy = Math.min(this.height - 1, Math.max(0, y));
+    return this.field[cy * this.width + cx];
+  }
+
+  /**
+   * Map every hight to a new hight map.
+   */
+  #map(
+    fn: (hight: number, index: number) => number,
+    seed = this.seed,
+  ): HightMap2D {
+    const field = new Float32Array(this.field.length);
+
+    for (let i = 0; i < field.length; i += 1) {
+      field[i] = fn(this.field[i], i);
+    }
+
+    return new HightMap2D(seed, this.width, this.height, this.scale, field);
+  }
+
   *[Symbol.iterator](): IterableIterator<{
     x: number;
     y: number;
@@ -131,7 +628,188 @@ export class HightMap2D {
 }
 
 /**
- * A 3D hight map.
+ * Blurs the rows of a field with a box blur, repeating the edges. Columns are
+ * blurred as rows by swapping the strides.
+ * @param field The field to blur.
+ * @param length The number of cells per row.
+ * @param rows The number of rows.
+ * @param radius The radius of the blur, in cells.
+ * @param step The stride between the cells of a row.
+ * @param stride The stride between the rows.
+ * @returns The blurred field.
+ */
+function boxBlur(
+  field: Float32Array,
+  length: number,
+  rows: number,
+  radius: number,
+  step: number,
+  stride: number,
+): Float32Array {
+  const result = new Float32Array(field.length);
+  const size = radius * 2 + 1;
+
+  for (let row = 0; row < rows; row += 1) {
+    const at = (i: number) =>
+      field[row * stride + Math.min(length - 1, Math.max(0, i)) * step];
+    let sum = 0;
+
+    for (let i = -radius; i <= radius; i += 1) {
+      sum += at(i);
+    }
+
+    for (let i = 0; i < length; i += 1) {
+      result[row * stride + i * step] = sum / size;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The hight and gradient of a field at a fractional position, interpolated
+ * bilinearly. The position must be at least 1 cell from the far edges.
+ * @returns The hight, and the gradient along x and y.
+ */
+function gradientAt(
+  field: Float32Array,
+  width: number,
+  x: number,
+  y: number,
+): [hight: number, gx: number, gy: number] {
+  const cx = Math.floor(x);
+  const cy = Math.floor(y);
+  const fx = x - cx;
+  const fy = y - cy;
+  const index = cy * width + cx;
+  const h00 = field[index];
+  const h10 = field[index + 1];
+  const h01 = field[index + width];
+  const h11 = field[index + width + 1];
+
+  return [
+    h00 * (1 - fx) * (1 - fy) + h10 * fx * (1 - fy) + h01 * (1 - fx) * fy +
+    h11 * fx * fy,
+    (h10 - h00) * (1 - fy) + (h11 - h01) * fy,
+    (h01 - h00) * (1 - fx) + (h11 - h10) * fx,
+  ];
+}
+
+/**
+ * Interpolates between the middle two of four evenly spaced values with a
+ * Catmull-Rom spline.
+ * @param t The position between the middle two values, from 0 to 1.
+ */
+function catmullRom(
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  t: number,
+): number {
+  const a = 3 * (p1 - p2) + p3 - p0;
+  const b = 2 * p0 - 5 * p1 + 4 * p2 - p3;
+  return p1 + 0.5 * t * (p2 - p0 + t * (b + t * a));
+}
+
+/**
+ * The lowest and highest hight of a hight field.
+ */
+function hightRange(field: ArrayLike<number>): [min: number, max: number] {
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (let i = 0; i < field.length; i += 1) {
+    min = Math.min(min, field[i]);
+    max = Math.max(max, field[i]);
+  }
+
+  return [min, max];
+}
+
+/**
+ * Casts a ray over the ground. The ray is sampled at fixed steps, and the
+ * first step below the ground is refined by bisection.
+ * @param from The start of the ray.
+ * @param to The end of the ray.
+ * @param ground The hight of the ground below a point.
+ * @param options The options of the raycast. The epsilon defaults to 0.
+ * @returns The point where the ray hits the ground, or undefined if it does
+ * not.
+ */
+function raycast(
+  from: Vector3D,
+  to: Vector3D,
+  ground: (x: number, y: number, z: number) => number,
+  { step = 0.25, epsilon = 0 }: RaycastOptions,
+): Vector3D | undefined {
+  if (step <= 0) {
+    throw new Error("The step of the raycast must be positive.");
+  } else if (epsilon < 0) {
+    throw new Error("The epsilon of the raycast must not be negative.");
+  }
+
+  const point = from.copy();
+  const below = (t: number) => {
+    point.set(from).interpolateInPlace(to, t);
+    return point.z < ground(point.x, point.y, point.z) - epsilon;
+  };
+
+  if (below(0)) {
+    return from.copy();
+  }
+
+  const steps = Math.max(1, Math.ceil(from.distanceTo(to) / step));
+
+  for (let i = 1; i <= steps; i += 1) {
+    if (!below(i / steps)) {
+      continue;
+    }
+
+    let low = (i - 1) / steps;
+    let high = i / steps;
+
+    for (let iteration = 0; iteration < 16; iteration += 1) {
+      const middle = (low + high) / 2;
+
+      if (below(middle)) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+
+    const hit = from.interpolate(to, high);
+
+    if (hit.distanceTo(from) > epsilon && hit.distanceTo(to) > epsilon) {
+      return hit;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32).
+ * @param seed The seed.
+ * @returns A function that returns the next number, from 0 to 1.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A 3D hight map. Every layer holds the hight of the ground below the
+ * altitudes of its z position.
  */
 export class Hightmap3D {
   /** The seed of the hight map. */
@@ -147,6 +825,12 @@ export class Hightmap3D {
   /** The hight field of the hight map. */
   readonly field: Float32Array;
 
+  /**
+   * The lowest and highest hight, which the tolerance of raycasts is relative
+   * to. It is computed by the first raycast, and reset when a hight is set.
+   */
+  #range?: [min: number, max: number];
+
   constructor(
     seed: number | null,
     width: number,
@@ -171,19 +855,92 @@ export class Hightmap3D {
   }
 
   /**
-   * Pin the given vector to the ground, with an optional offset.
+   * Get a layer of the hight map, which shares its hight field.
+   * @param z The z position of the layer. Positions beyond the layers are
+   * clamped to the first or last layer.
+   * @returns The layer, as a 2D hight map.
+   */
+  layer(z: number): HightMap2D {
+    const layer = Math.min(this.depth - 1, Math.max(0, Math.floor(z)));
+    const size = this.width * this.height;
+
+    return new HightMap2D(
+      this.seed,
+      this.width,
+      this.height,
+      this.scale,
+      this.field.subarray(layer * size, (layer + 1) * size),
+    );
+  }
+
+  /**
+   * Sample the hight below a fractional position, from the layer of its z
+   * position. Positions beyond the edges are clamped to the edges.
+   * @param x The x position.
+   * @param y The y position.
+   * @param z The z position.
+   * @param interpolation How the hights are interpolated.
+   * @returns The hight at the given position.
+   */
+  sample(
+    x: number,
+    y: number,
+    z: number,
+    interpolation = Interpolation.Bilinear,
+  ): number {
+    return this.layer(z).sample(x, y, interpolation);
+  }
+
+  /**
+   * Pin the given vector to the ground, with an optional offset. The vector
+   * keeps its x and y position, and the ground is interpolated between the
+   * cells, so that entities follow the ground smoothly.
    * @param vector The vector to pin to the ground.
    * @param offset The offset to add to the hight.
    * @returns The pinned vector.
    */
   pinTo(vector: Vector3D, offset = 0): Vector3D {
-    const x = Math.floor(vector.x);
-    const y = Math.floor(vector.y);
-    const z = Math.floor(vector.z);
+    const hight = this.sample(vector.x, vector.y, vector.z);
+    return Vector3D.fromArray([vector.x, vector.y, hight + offset]);
+  }
 
-    const hight = this.get(x, y, z);
+  /**
+   * Cast a ray from one point to another, and find where it first hits the
+   * ground, using the layer of every point along the ray.
+   * @param from The start of the ray.
+   * @param to The end of the ray.
+   * @param options The options of the raycast.
+   * @returns The point where the ray hits the ground, or undefined if it does
+   * not.
+   */
+  raycast(
+    from: Vector3D,
+    to: Vector3D,
+    { step, epsilon }: RaycastOptions = {},
+  ): Vector3D | undefined {
+    if (epsilon === undefined) {
+      const [min, max] = this.#range ??= hightRange(this.field);
+      epsilon = raycastTolerance * (max - min);
+    }
 
-    return Vector3D.fromArray([x, y, hight + offset]);
+    return raycast(from, to, (x, y, z) => this.sample(x, y, z), {
+      step,
+      epsilon,
+    });
+  }
+
+  /**
+   * Whether two points can see each other over the ground.
+   * @param from The first point.
+   * @param to The second point.
+   * @param options The options of the raycast.
+   */
+  lineOfSight(
+    from: Vector3D,
+    to: Vector3D,
+    options: RaycastOptions = {},
+  ): boolean {
+    return !this.raycast(from, to, options);
   }
 
   /**
@@ -217,6 +974,7 @@ export class Hightmap3D {
    */
   set(x: number, y: number, z: number, hight: number): void {
     this.field[z * this.width * this.height + y * this.width + x] = hight;
+    this.#range = undefined;
   }
 
   /**
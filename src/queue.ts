@@ -0,0 +1,279 @@
+import { type ActionHandler, CheckResult } from "./code/actions.js";
+import type { Engine } from "./engine.js";
+import type { Entity } from "./entity.js";
+import { DEFAULT_FUEL_BUDGET, FuelMeter } from "./fuel.js";
+import type { System } from "./loop.js";
+
+/** The default maximum number of pending actions per entity. */
+export const DEFAULT_MAX_PENDING_ACTIONS = 32;
+
+/**
+ * An error that is thrown when an action cannot be queued.
+ */
+export class ActionQueueError extends AggregateError {
+  /** The entity that submitted the action. */
+  readonly entity: Entity;
+  /** The key of the action. */
+  readonly key: string;
+
+  constructor(entity: Entity, key: string, message: string) {
+    super([], message);
+    this.entity = entity;
+    this.key = key;
+  }
+}
+
+/**
+ * An action that is waiting to be performed.
+ */
+export interface QueuedAction {
+  /** The ID of the action, unique per queue. */
+  id: number;
+  /** The key of the action. */
+  key: string;
+  /** The arguments of the action. */
+  args: unknown[];
+  /** The frame the action was submitted on. */
+  submittedAt: number;
+}
+
+/**
+ * The result of a queued action. It is delivered to the entity as the
+ * `action` event.
+ */
+export interface ActionResult {
+  /** The ID of the action. */
+  id: number;
+  /** The key of the action. */
+  key: string;
+  /** The result of the check, or `FAILED` if the action threw. */
+  status: CheckResult;
+  /** The fuel that was charged for the action. */
+  fuel: number;
+  /** The value that the action returned, if it was performed. */
+  value?: unknown;
+  /** The name of the invalid argument, if any. */
+  argument?: string;
+  /** The error message, if the action failed or an argument is invalid. */
+  error?: string;
+}
+
+export interface ActionQueueOptions {
+  /** The engine that runs the entities. */
+  engine: Engine;
+  /** The action handler that creates and checks the actions. */
+  handler: ActionHandler;
+  /** The fuel budget per frame of the meters. Defaults to `DEFAULT_FUEL_BUDGET`. */
+  budget?: number;
+  /**
+   * The maximum number of pending actions per entity. Defaults to
+   * `DEFAULT_MAX_PENDING_ACTIONS`.
+   */
+  maxPending?: number;
+}
+
+/**
+ * The action queues of the entities. Scripts submit actions, and the queue
+ * system performs them every frame: every action is checked by the action
+ * handler, its cost is spent from the fuel meter of the entity, including its
+ * distance and time multipliers, and it is performed by the handler. The
+ * result is delivered to the entity as the `action` event, whether the action
+ * was performed or not. Actions with a channel deliver the `completed`,
+ * `failed` or `interrupted` event later.
+ *
+ * Entities are processed in the order of the engine, and their actions in the
+ * order they were submitted, so that the results are deterministic. Actions
+ * of quarantined entities wait until they are released.
+ *
+ * @emits result When an action was processed, with the result as detail.
+ *
+ * ```ts
+ * const queue = new ActionQueue({
+ *   engine,
+ *   handler: new ActionHandler(engine, actions),
+ * });
+ * engine.addSystem(queue.system);
+ *
+ * entity.addTrigger("action", (result) => console.log(result.status));
+ * queue.submit(entity, "move", [10, 0, 10]);
+ * ```
+ */
+export class ActionQueue extends EventTarget {
+  /** The engine that runs the entities. */
+  readonly engine: Engine;
+  /** The action handler that creates and checks the actions. */
+  readonly handler: ActionHandler;
+  /** The fuel budget per frame of the meters. */
+  readonly budget: number;
+  /** The maximum number of pending actions per entity. */
+  readonly maxPending: number;
+
+  /**
+   * The pending actions, by entity. Despawned entities drop their queue along
+   * with themselves.
+   */
+  #queues: WeakMap<Entity, QueuedAction[]> = new WeakMap();
+  /** The fuel meters, by entity. */
+  #meters: WeakMap<Entity, FuelMeter> = new WeakMap();
+  #nextId = 1;
+
+  constructor({
+    engine,
+    handler,
+    budget = DEFAULT_FUEL_BUDGET,
+    maxPending = DEFAULT_MAX_PENDING_ACTIONS,
+  }: ActionQueueOptions) {
+    super();
+    this.engine = engine;
+    this.handler = handler;
+    this.budget = budget;
+    this.maxPending = maxPending;
+  }
+
+  /**
+   * The system that performs the pending actions. Add it to the engine to
+   * process the queues every frame.
+   */
+  readonly system: System = () => {
+    const { time } = this.engine;
+
+    for (const entity of this.engine.entities) {
+      const queue = this.#queues.get(entity as Entity);
+
+      if (!queue?.length || this.engine.quarantined.has(entity)) {
+        continue;
+      }
+
+      // Actions submitted while the queue is processed wait for the next frame.
+      this.#queues.set(entity as Entity, []);
+      const meter = this.meter(entity as Entity);
+      meter.refuel(time);
+
+      for (const action of queue) {
+        const result = this.#perform(entity as Entity, meter, action);
+        entity.addEvent("action", result);
+        this.dispatchEvent(new CustomEvent("result", { detail: result }));
+      }
+    }
+  };
+
+  /**
+   * Gets the fuel meter of an entity, creating it if it does not exist. Pass
+   * it to the sandbox of the entity, so that the script and its actions share
+   * the budget.
+   * @param entity The entity to get the meter of.
+   */
+  meter(entity: Entity): FuelMeter {
+    let meter = this.#meters.get(entity);
+
+    if (!meter) {
+      meter = new FuelMeter({ budget: this.budget });
+      this.#meters.set(entity, meter);
+    }
+
+    return meter;
+  }
+
+  /**
+   * Submits an action. The action is performed by the queue system.
+   * @param entity The entity that performs the action.
+   * @param key The key of the action.
+   * @param args The arguments of the action.
+   * @returns The ID of the action, which identifies its result.
+   * @throws {ActionQueueError} If the queue of the entity is full.
+   */
+  submit(entity: Entity, key: string, ...args: unknown[]): number {
+    const queue = this.#queues.get(entity) ?? [];
+
+    if (queue.length >= this.maxPending) {
+      throw new ActionQueueError(
+        entity,
+        key,
+        `The action queue of entity ${entity.id} is full (${this.maxPending}).`,
+      );
+    }
+
+    const id = this.#nextId++;
+    queue.push({ id, key, args, submittedAt: this.engine.time });
+    this.#queues.set(entity, queue);
+    return id;
+  }
+
+  /**
+   * The pending actions of an entity.
+   * @param entity The entity to get the pending actions of.
+   */
+  pending(entity: Entity): readonly Readonly<QueuedAction>[] {
+    return this.#queues.get(entity) ?? [];
+  }
+
+  /**
+   * Removes the pending actions of an entity, or of all entities. Their
+   * results are never delivered.
+   * @param entity The entity to clear the queue of.
+   */
+  clear(entity?: Entity): ActionQueue {
+    if (entity) {
+      this.#queues.delete(entity);
+    } else {
+      this.#queues = new WeakMap();
+    }
+
+    return this;
+  }
+
+  /**
+   * Checks, charges and executes an action.
+   */
+  #perform(
+    entity: Entity,
+    meter: FuelMeter,
+    { id, key, args }: QueuedAction,
+  ): ActionResult {
+    const { status, action, error } = this.handler.validate(
+      key,
+      entity,
+      meter.remaining,
+      ...args,
+    );
+
+    if (error) {
+      return {
+        id,
+        key,
+        status,
+        fuel: 0,
+        argument: error.argument,
+        error: error.message,
+      };
+    } else if (status !== CheckResult.Ok || !action) {
+      return { id, key, status, fuel: 0 };
+    }
+
+    const fuel = this.handler.cost(action);
+
+    if (!action.execute) {
+      return { id, key, status: CheckResult.NoAction, fuel: 0 };
+    } else if (!meter.spend(fuel)) {
+      return { id, key, status: CheckResult.NoFuel, fuel: 0 };
+    }
+
+    try {
+      return {
+        id,
+        key,
+        status,
+        fuel,
+        value: this.handler.perform(entity, action),
+      };
+    } catch (error) {
+      return {
+        id,
+        key,
+        status: CheckResult.Failed,
+        fuel,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
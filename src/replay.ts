@@ -0,0 +1,460 @@
+import type { AttributeModifier } from "./attributes.js";
+import { Orientation3D, Vector3D } from "./code/movement.js";
+import type { Entity, FrameFunction, Fragment, TurnResult } from "./loop.js";
+import { FrameScheduler } from "./scheduler.js";
+
+/** The version of the replay format. */
+export const REPLAY_VERSION = 1;
+
+/**
+ * A serialized entity, as it was at the start of the replay.
+ */
+export interface ReplayEntity {
+  /** The ID of the entity. */
+  id: string;
+  /** The location of the entity. */
+  location: [number, number, number];
+  /** The orientation of the entity. */
+  orientation: [number, number, number];
+  /** The attributes of the entity. */
+  attributes: [name: string, value: number][];
+  /** The modifiers of the attributes of the entity. */
+  modifiers?: AttributeModifier[];
+}
+
+/**
+ * The header of a replay. This is the first record of a replay file.
+ */
+export interface ReplayHeader {
+  /** The version of the replay format. */
+  version: number;
+  /** The seed of the arena. */
+  seed: number | null;
+  /** The ID of the arena. */
+  arena?: string;
+  /** The entities at the start of the replay. */
+  entities: ReplayEntity[];
+}
+
+/**
+ * A frame of a replay.
+ */
+export interface ReplayFrame {
+  /** The frame that was run. */
+  time: number;
+  /** The fragments of the frame. */
+  fragments: Fragment[];
+}
+
+/**
+ * A fragment as it is written to a replay file.
+ */
+type ReplayFragment = [
+  frame: number,
+  key: string | null,
+  value: unknown,
+  triggers?: Fragment["triggers"],
+];
+
+/**
+ * Encode a fragment value to a JSON compatible value. Vectors and
+ * orientations are encoded as tagged arrays.
+ * @param value The value to encode.
+ * @returns The encoded value.
+ */
+export function encodeValue(value: unknown): unknown {
+  if (value instanceof Vector3D) {
+    return { $v: value.toArray() };
+  } else if (value instanceof Orientation3D) {
+    return { $o: value.toArray() };
+  } else if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  } else if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encodeValue(item)]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Decode a value that was encoded with `encodeValue`.
+ * @param value The value to decode.
+ * @returns The decoded value.
+ */
+export function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  } else if (value !== null && typeof value === "object") {
+    if ("$v" in value) {
+      return Vector3D.fromArray(value.$v as [number, number, number]);
+    } else if ("$o" in value) {
+      return Orientation3D.fromArray(value.$o as [number, number, number]);
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, decodeValue(item)]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Serialize an entity for the header of a replay.
+ * @param entity The entity to serialize.
+ * @returns The serialized entity.
+ */
+export function serializeEntity(entity: Entity): ReplayEntity {
+  const attributes: [string, number][] = [];
+
+  for (const { name, value } of entity.attributes) {
+    attributes.push([name, value]);
+  }
+
+  return {
+    id: entity.id,
+    location: entity.location.toArray(),
+    orientation: entity.orientation.toArray(),
+    attributes,
+    modifiers: entity.attributes.modifiers().map((modifier) => ({
+      ...modifier,
+    })),
+  };
+}
+
+/**
+ * Records the turns of a match to an append-only replay stream. The replay is
+ * written as newline delimited JSON: a header, followed by one record per
+ * frame.
+ *
+ * ```ts
+ * const recorder = new ReplayRecorder(writable);
+ * await recorder.start({ seed, entities: engine.entities });
+ *
+ * for await (const result of turns) {
+ *   await recorder.record(result);
+ * }
+ *
+ * await recorder.close();
+ * ```
+ */
+export class ReplayRecorder {
+  /** The writer of the replay stream. */
+  #writer: WritableStreamDefaultWriter<Uint8Array>;
+  /** The encoder of the records. */
+  #encoder = new TextEncoder();
+  /** Whether the header has been written. */
+  #started = false;
+
+  constructor(writable: WritableStream<Uint8Array>) {
+    this.#writer = writable.getWriter();
+  }
+
+  /**
+   * Writes the header of the replay.
+   * @param options The options for the header.
+   * @param options.seed The seed of the arena.
+   * @param options.arena The ID of the arena.
+   * @param options.entities The entities at the start of the match.
+   * @throws {Error} If the header has already been written.
+   */
+  async start({ seed, arena, entities }: {
+    seed: number | null;
+    arena?: string;
+    entities: Iterable<Entity>;
+  }): Promise<void> {
+    if (this.#started) {
+      throw new Error("Replay has already been started.");
+    }
+
+    this.#started = true;
+
+    const header: ReplayHeader = {
+      version: REPLAY_VERSION,
+      seed,
+      arena,
+      entities: [...entities].map(serializeEntity),
+    };
+
+    await this.#write(header);
+  }
+
+  /**
+   * Writes the result of a turn to the replay.
+   * @param result The result of the turn.
+   * @throws {Error} If the header has not been written.
+   */
+  async record({ time, fragments }: TurnResult): Promise<void> {
+    if (!this.#started) {
+      throw new Error("Replay has not been started.");
+    }
+
+    const records: ReplayFragment[] = [...fragments].map((fragment) => {
+      const record: ReplayFragment = [
+        fragment.frame,
+        fragment.key ?? null,
+        encodeValue(fragment.value),
+      ];
+
+      if (fragment.triggers?.length) {
+        record.push(fragment.triggers);
+      }
+
+      return record;
+    });
+
+    await this.#write({ t: time, f: records });
+  }
+
+  /**
+   * Closes the replay stream.
+   */
+  async close(): Promise<void> {
+    await this.#writer.close();
+  }
+
+  async #write(record: unknown): Promise<void> {
+    await this.#writer.write(
+      this.#encoder.encode(`${JSON.stringify(record)}\n`),
+    );
+  }
+}
+
+/**
+ * Plays back a replay by feeding its frames into a frame function. The player
+ * can be paused, and can seek to any frame of the replay.
+ *
+ * @emits frame When a frame has been played.
+ * @emits end When the last frame has been played.
+ *
+ * ```ts
+ * const player = ReplayPlayer.decode(buffer, frame);
+ *
+ * await player.seek(100);
+ * await player.play(signal);
+ * ```
+ */
+export class ReplayPlayer extends EventTarget {
+  /**
+   * Decode a replay.
+   * @param buffer The replay to decode.
+   * @param frame The frame function to feed the frames into.
+   * @returns The replay player.
+   * @throws {Error} If the replay is invalid.
+   */
+  static decode(buffer: Uint8Array, frame: FrameFunction): ReplayPlayer {
+    const lines = new TextDecoder()
+      .decode(buffer)
+      .split("\n")
+      .filter((line) => line.length);
+
+    if (!lines.length) {
+      throw new Error("Replay is empty.");
+    }
+
+    const header = JSON.parse(lines[0]) as ReplayHeader;
+
+    if (header.version !== REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version: ${header.version}`);
+    }
+
+    const frames = lines.slice(1).map((line): ReplayFrame => {
+      const { t, f } = JSON.parse(line) as { t: number; f: ReplayFragment[] };
+
+      return {
+        time: t,
+        fragments: f.map(([frame, key, value, triggers]) => ({
+          frame,
+          key: key ?? undefined,
+          value: decodeValue(value),
+          triggers,
+        })),
+      };
+    });
+
+    return new ReplayPlayer(header, frames, frame);
+  }
+
+  /** The header of the replay. */
+  readonly header: ReplayHeader;
+  /** The frames of the replay. */
+  readonly frames: readonly ReplayFrame[];
+
+  /** The frame function to feed the frames into. */
+  #frame: FrameFunction;
+  /** The index of the next frame to play. */
+  #position = 0;
+  /** The controller that pauses the playback. */
+  #playing?: AbortController;
+
+  constructor(
+    header: ReplayHeader,
+    frames: ReplayFrame[],
+    frame: FrameFunction,
+  ) {
+    super();
+    this.header = header;
+    this.frames = frames;
+    this.#frame = frame;
+  }
+
+  /**
+   * The frame that was played last, or undefined if no frame was played.
+   */
+  get time(): number | undefined {
+    return this.frames[this.#position - 1]?.time;
+  }
+
+  /**
+   * Whether the replay is playing.
+   */
+  get playing(): boolean {
+    return this.#playing !== undefined;
+  }
+
+  /**
+   * Whether all the frames have been played.
+   */
+  get ended(): boolean {
+    return this.#position >= this.frames.length;
+  }
+
+  /**
+   * Plays the next frame.
+   * @returns Whether a frame was played.
+   */
+  async step(): Promise<boolean> {
+    const frame = this.frames[this.#position];
+
+    if (!frame) {
+      return false;
+    }
+
+    this.#position += 1;
+    await this.#frame(new Set(frame.fragments));
+    this.dispatchEvent(new CustomEvent("frame", { detail: frame }));
+
+    if (this.ended) {
+      this.dispatchEvent(new Event("end"));
+    }
+
+    return true;
+  }
+
+  /**
+   * Plays the frames until the replay ends, is paused, or the signal is
+   * aborted. The frames are paced by the scheduler.
+   * @param signal The signal to stop the playback.
+   * @param scheduler The scheduler that paces the frames.
+   */
+  async play(
+    signal?: AbortSignal,
+    scheduler: FrameScheduler = new FrameScheduler(),
+  ): Promise<void> {
+    if (this.#playing) {
+      throw new Error("Replay is already playing.");
+    }
+
+    const playing = new AbortController();
+    const onAbort = () => playing.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    this.#playing = playing;
+
+    try {
+      while (!this.ended && (await scheduler.wait(playing.signal))) {
+        await this.step();
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.#playing = undefined;
+    }
+  }
+
+  /**
+   * Pauses the playback.
+   */
+  pause(): void {
+    this.#playing?.abort();
+  }
+
+  /**
+   * Seeks to a frame. The state of the header is folded with the fragments of
+   * all the frames up to and including the given frame into a single set,
+   * which is fed into the frame function at once. The latest fragment of every
+   * key wins, except for modifiers, whose changes are kept in order. Every
+   * modifier of the replay is removed first, so that seeking backward does not
+   * keep the modifiers of later frames. Fragments without a key are skipped.
+   * @param time The frame to seek to.
+   */
+  async seek(time: number): Promise<void> {
+    const latest: Map<string, Fragment> = new Map();
+    const put = (key: string, fragment: Fragment) => {
+      const previous = latest.get(key);
+      latest.delete(key);
+
+      if (previous && key.includes(".modifiers.")) {
+        latest.set(key, {
+          ...fragment,
+          value: [
+            ...(previous.value as (AttributeModifier | null)[]),
+            ...(fragment.value as (AttributeModifier | null)[]),
+          ],
+        });
+      } else {
+        latest.set(key, fragment);
+      }
+    };
+
+    for (const frame of this.frames) {
+      for (const { key } of frame.fragments) {
+        if (key?.includes(".modifiers.")) {
+          latest.set(key, { frame: time, key, value: [null] });
+        }
+      }
+    }
+
+    const seed = (key: string, value: unknown) =>
+      put(key, { frame: time, key, value });
+
+    for (const entity of this.header.entities) {
+      const prefix = `Entity[${entity.id}]`;
+
+      seed(`${prefix}.location`, Vector3D.fromArray(entity.location));
+      seed(
+        `${prefix}.orientation`,
+        Orientation3D.fromArray(entity.orientation),
+      );
+
+      for (const [name, value] of entity.attributes) {
+        seed(`${prefix}.attributes.${name}`, value);
+      }
+
+      for (const modifier of entity.modifiers ?? []) {
+        seed(`${prefix}.modifiers.${modifier.attribute}.${modifier.id}`, [
+          modifier,
+        ]);
+      }
+    }
+
+    let position = 0;
+
+    for (const frame of this.frames) {
+      if (frame.time > time) {
+        break;
+      }
+
+      for (const fragment of frame.fragments) {
+        if (fragment.key !== undefined) {
+          put(fragment.key, fragment);
+        }
+      }
+
+      position += 1;
+    }
+
+    this.#position = position;
+    await this.#frame(new Set(latest.values()));
+  }
+}
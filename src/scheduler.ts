@@ -0,0 +1,162 @@
+import type { LoopResult } from "./loop.js";
+
+export interface FrameSchedulerOptions {
+  /** The number of frames per second. */
+  tickRate?: number;
+  /**
+   * The maximum number of frames that are run back to back to catch up when
+   * the scheduler falls behind. If the scheduler falls further behind, the
+   * missed frames are dropped and the schedule restarts from now.
+   */
+  maxCatchUp?: number;
+}
+
+/**
+ * The timing of a frame, relative to the frame budget of the scheduler.
+ */
+export interface FrameTiming {
+  /** The time it took to run the frame, in milliseconds. */
+  duration: number;
+  /** The time available to run a frame, in milliseconds. */
+  budget: number;
+  /**
+   * The time by which the frame exceeded its budget, in milliseconds. This is
+   * 0 if the frame did not exceed its budget.
+   */
+  overrun: number;
+  /**
+   * The time that was left of the budget after running the frame, in
+   * milliseconds. This is 0 if the frame exceeded its budget.
+   */
+  underrun: number;
+  /** The time by which the frame started late, in milliseconds. */
+  lag: number;
+}
+
+/**
+ * A fixed timestep scheduler. The scheduler paces the frames to a fixed tick
+ * rate, and catches up on frames that started late.
+ *
+ * ```ts
+ * const scheduler = new FrameScheduler({ tickRate: 20 });
+ *
+ * while (await scheduler.wait(signal)) {
+ *   const result = await loop(scheduler.nextFrame(engine.time));
+ *   const timing = scheduler.timing(result);
+ * }
+ * ```
+ */
+export class FrameScheduler {
+  /** The number of frames per second. */
+  readonly tickRate: number;
+  /** The maximum number of frames that are run back to back to catch up. */
+  readonly maxCatchUp: number;
+  /** The time between two frames, in milliseconds. */
+  readonly interval: number;
+
+  /** The time at which the next frame is due. */
+  #nextTick?: number;
+  /** The time at which the current frame was due. */
+  #due = 0;
+  /** The time at which the current frame started. */
+  #started = 0;
+  /** The last frame that was handed out. */
+  #frame?: number;
+
+  constructor({
+    tickRate = 20,
+    maxCatchUp = 5,
+  }: FrameSchedulerOptions = {}) {
+    if (tickRate <= 0) {
+      throw new Error("The tick rate must be greater than 0.");
+    } else if (maxCatchUp < 0) {
+      throw new Error("The maximum catch up must not be negative.");
+    }
+
+    this.tickRate = tickRate;
+    this.maxCatchUp = maxCatchUp;
+    this.interval = 1000 / tickRate;
+  }
+
+  /**
+   * Waits until the next frame is due. If the next frame is already due, this
+   * resolves immediately.
+   * @param signal The signal to abort the wait.
+   * @returns Whether the next frame should run, false if the wait was aborted.
+   */
+  async wait(signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return false;
+    }
+
+    const now = performance.now();
+    this.#nextTick ??= now;
+
+    // Drop the missed frames if we are too far behind.
+    if (now - this.#nextTick > this.maxCatchUp * this.interval) {
+      this.#nextTick = now;
+    }
+
+    const delay = this.#nextTick - now;
+
+    if (delay > 0 && !(await sleep(delay, signal))) {
+      return false;
+    }
+
+    this.#due = this.#nextTick;
+    this.#started = performance.now();
+    this.#nextTick += this.interval;
+    return true;
+  }
+
+  /**
+   * Gets the number of the next frame. Frame numbers increase monotonically,
+   * even when frames are dropped.
+   * @param time The current frame.
+   * @returns The next frame.
+   */
+  nextFrame(time: number): number {
+    const frame = Math.max(time, this.#frame ?? time) + 1;
+    this.#frame = frame;
+    return frame;
+  }
+
+  /**
+   * Gets the timing of a frame.
+   * @param result The result of the frame.
+   * @returns The timing of the frame.
+   */
+  timing({ start, end }: Pick<LoopResult, "start" | "end">): FrameTiming {
+    const duration = end - start;
+
+    return {
+      duration,
+      budget: this.interval,
+      overrun: Math.max(0, duration - this.interval),
+      underrun: Math.max(0, this.interval - duration),
+      lag: Math.max(0, this.#started - this.#due),
+    };
+  }
+}
+
+/**
+ * Sleeps for a duration.
+ * @param ms The duration to sleep, in milliseconds.
+ * @param signal The signal to abort the sleep.
+ * @returns Whether the sleep completed, false if it was aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve(false);
+    };
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -1,9 +1,8 @@
 import { createSlice, type PayloadAction } from "@reduxjs/toolkit";
-import { RemoveFunctions } from "../lobby.js";
-import { Entity as EntityInterface } from "../loop.js";
+import type { EntitySnapshot } from "../snapshot.js";
 
 export interface EntitiesSliceState {
-  entities: Record<string, RemoveFunctions<EntityInterface>>;
+  entities: Record<string, EntitySnapshot>;
 }
 
 const initialState: EntitiesSliceState = {
@@ -14,10 +13,10 @@ const entitiesSlice = createSlice({
   name: "entities",
   initialState,
   reducers: {
-    addEntity: (state, action: PayloadAction<EntityInterface>) => {
+    addEntity: (state, action: PayloadAction<EntitySnapshot>) => {
       state.entities[action.payload.id] = action.payload;
     },
-    removeEntity: (state, action) => {
+    removeEntity: (state, action: PayloadAction<{ id: string }>) => {
       delete state.entities[action.payload.id];
     },
   },
@@ -0,0 +1,97 @@
+import type { AttributeModifier } from "./attributes.js";
+import type {
+  MovementStep,
+  Orientation3DArray,
+  Vector3DArray,
+} from "./code/movement.js";
+
+/**
+ * The version of the snapshot format. Version 2 added the modifiers of the
+ * attributes, and the easing and pause state of movements.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * A snapshot of a movement.
+ */
+export interface MovementSnapshot {
+  /** The ID of the movement. */
+  id: string;
+  /** The steps of the movement. */
+  steps: MovementStep[];
+  /** The frame that the movement was paused on, if it is paused. */
+  pausedAt?: number;
+}
+
+/**
+ * A snapshot of an entity. The loops and triggers of an entity are code, and
+ * are not part of the snapshot.
+ */
+export interface EntitySnapshot {
+  /** The ID of the entity. */
+  id: string;
+  /** The location of the entity. */
+  location: Vector3DArray;
+  /** The orientation of the entity. */
+  orientation: Orientation3DArray;
+  /**
+   * The attributes of the entity. This includes the sleep state, as the
+   * `sleepUntil` attribute.
+   */
+  attributes: [name: string, value: number][];
+  /** The modifiers of the attributes of the entity. */
+  modifiers?: AttributeModifier[];
+  /** The active movement of the entity. */
+  movement?: MovementSnapshot;
+}
+
+/**
+ * A snapshot of an engine and all its entities. The cooldowns and channels of
+ * the action handler, and the pending actions of the action queue, belong to
+ * those services and are not part of the snapshot. Restoring a snapshot
+ * leaves them as they are, so clear them when restoring into a running game.
+ */
+export interface EngineSnapshot {
+  /** The version of the snapshot format. */
+  version: number;
+  /** The current frame. */
+  time: number;
+  /** The previous frame. */
+  previousTime: number;
+  /** The entities, in the order they were added to the engine. */
+  entities: EntitySnapshot[];
+  /** The IDs of the quarantined entities. */
+  quarantined: string[];
+}
+
+/**
+ * Encode a snapshot.
+ * @param snapshot The snapshot to encode.
+ * @returns The encoded snapshot.
+ */
+export function encodeSnapshot(snapshot: EngineSnapshot): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(snapshot));
+}
+
+/**
+ * Decode a snapshot.
+ * @param buffer The buffer to decode.
+ * @returns The decoded snapshot.
+ * @throws {Error} If the snapshot has an unsupported version.
+ */
+export function decodeSnapshot(buffer: Uint8Array): EngineSnapshot {
+  const snapshot = JSON.parse(new TextDecoder().decode(buffer));
+  assertSnapshotVersion(snapshot);
+  return snapshot;
+}
+
+/**
+ * Assert that a snapshot has a supported version.
+ * @param snapshot The snapshot to check.
+ * @throws {Error} If the snapshot has an unsupported version.
+ */
+export function assertSnapshotVersion(snapshot: EngineSnapshot): void {
+  if (snapshot?.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${snapshot?.version}`);
+  }
+}
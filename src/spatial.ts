@@ -0,0 +1,315 @@
+import { Vector3D } from "./code/movement.js";
+import type { ArenaMapDescription } from "./config/types.js";
+import { type FragmentReducerMap, fragmentReducers } from "./fragment.js";
+import type { LifecycleManager } from "./lifecycle.js";
+import type { Entity } from "./loop.js";
+
+/**
+ * A spatial index. A spatial index answers proximity queries over the
+ * entities in the game.
+ */
+export interface SpatialIndex {
+  /** The number of entities in the index. */
+  readonly size: number;
+
+  /**
+   * Inserts an entity into the index, or updates it if it is already indexed.
+   * @param entity The entity to insert.
+   */
+  insert(entity: Entity): SpatialIndex;
+
+  /**
+   * Removes an entity from the index.
+   * @param entity The entity to remove.
+   */
+  remove(entity: Entity): SpatialIndex;
+
+  /**
+   * Gets the entities within a radius of a point, nearest first.
+   * @param center The center of the sphere.
+   * @param radius The radius of the sphere.
+   */
+  radius(center: Vector3D, radius: number): Entity[];
+
+  /**
+   * Gets the entities within an axis aligned box.
+   * @param min The minimum corner of the box.
+   * @param max The maximum corner of the box.
+   */
+  box(min: Vector3D, max: Vector3D): Entity[];
+
+  /**
+   * Gets the nearest entities to a point, nearest first.
+   * @param center The point to search from.
+   * @param k The maximum number of entities to return.
+   * @param maxRadius The maximum distance to search.
+   */
+  nearest(center: Vector3D, k: number, maxRadius?: number): Entity[];
+}
+
+export interface SpatialGridOptions {
+  /** The map of the arena. The grid covers the width, height and depth. */
+  map: Pick<ArenaMapDescription, "width" | "height" | "depth">;
+  /** The size of a cell of the grid. Defaults to 8. */
+  cellSize?: number;
+}
+
+/**
+ * A uniform grid spatial index over the arena. Positions outside the arena are
+ * clamped to the border cells.
+ *
+ * ```ts
+ * const grid = new SpatialGrid({ map: arena.map, cellSize: 4 });
+ * grid.rebuild(engine.entities).attach(fragmentReducers, lifecycle);
+ *
+ * const nearby = grid.radius(entity.location, 10);
+ * ```
+ */
+export class SpatialGrid implements SpatialIndex {
+  /** The size of a cell of the grid. */
+  readonly cellSize: number;
+  /** The number of cells along the x, y and z axes. */
+  readonly cells: readonly [x: number, y: number, z: number];
+
+  /** The entities in every cell, by cell index. */
+  #cells: Map<number, Set<Entity>> = new Map();
+  /** The indexed position and cell of every entity. */
+  #entries: Map<Entity, { position: Vector3D; cell: number }> = new Map();
+
+  constructor({ map, cellSize = 8 }: SpatialGridOptions) {
+    if (cellSize <= 0) {
+      throw new Error("The cell size must be greater than 0.");
+    }
+
+    this.cellSize = cellSize;
+    this.cells = [
+      Math.max(1, Math.ceil(map.width / cellSize)),
+      Math.max(1, Math.ceil(map.height / cellSize)),
+      Math.max(1, Math.ceil(map.depth / cellSize)),
+    ];
+  }
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  insert(entity: Entity): SpatialGrid {
+    const position = entity.location;
+    const cell = this.#cellIndex(...this.#cellOf(position));
+    const entry = this.#entries.get(entity);
+
+    if (entry && entry.cell !== cell) {
+      this.#cells.get(entry.cell)?.delete(entity);
+    }
+
+    if (!this.#cells.has(cell)) {
+      this.#cells.set(cell, new Set());
+    }
+
+    this.#cells.get(cell)!.add(entity);
+    this.#entries.set(entity, { position, cell });
+    return this;
+  }
+
+  remove(entity: Entity): SpatialGrid {
+    const entry = this.#entries.get(entity);
+
+    if (entry) {
+      const cell = this.#cells.get(entry.cell)!;
+      cell.delete(entity);
+
+      if (!cell.size) {
+        this.#cells.delete(entry.cell);
+      }
+
+      this.#entries.delete(entity);
+    }
+
+    return this;
+  }
+
+  /**
+   * Clears the grid and inserts the given entities.
+   * @param entities The entities to insert.
+   */
+  rebuild(entities: Iterable<Entity>): SpatialGrid {
+    this.#cells.clear();
+    this.#entries.clear();
+
+    for (const entity of entities) {
+      this.insert(entity);
+    }
+
+    return this;
+  }
+
+  /**
+   * Keeps the grid in sync with the location fragments that are applied by
+   * the reducers. Entities that are not indexed are not inserted. With a
+   * lifecycle manager, spawned entities are inserted and despawned entities
+   * are removed.
+   * @param reducers The reducers to attach to.
+   * @param lifecycle The lifecycle manager to follow.
+   */
+  attach(
+    reducers: FragmentReducerMap = fragmentReducers,
+    lifecycle?: LifecycleManager,
+  ): SpatialGrid {
+    reducers.add("Entity[*].location", (_fragment, [id], engine) => {
+      const entity = engine.getEntity(id);
+
+      if (entity && this.#entries.has(entity)) {
+        this.insert(entity);
+      }
+    });
+
+    lifecycle?.addEventListener("spawn", (event) => {
+      this.insert((event as CustomEvent<Entity>).detail);
+    });
+    lifecycle?.addEventListener("despawn", (event) => {
+      this.remove((event as CustomEvent<Entity>).detail);
+    });
+
+    return this;
+  }
+
+  radius(center: Vector3D, radius: number): Entity[] {
+    const offset = new Vector3D([radius, radius, radius]);
+    const radiusSquared = radius * radius;
+
+    return this.#search(center.subtract(offset), center.add(offset))
+      .map((entity) => ({
+        entity,
+        distance: distanceSquared(center, this.#entries.get(entity)!.position),
+      }))
+      .filter(({ distance }) => distance <= radiusSquared)
+      .sort(compareByDistance)
+      .map(({ entity }) => entity);
+  }
+
+  box(min: Vector3D, max: Vector3D): Entity[] {
+    return this.#search(min, max).filter((entity) => {
+      const { position } = this.#entries.get(entity)!;
+
+      return position.x >= min.x && position.x <= max.x &&
+        position.y >= min.y && position.y <= max.y &&
+        position.z >= min.z && position.z <= max.z;
+    });
+  }
+
+  nearest(center: Vector3D, k: number, maxRadius = Infinity): Entity[] {
+    if (k <= 0 || !this.#entries.size) {
+      return [];
+    }
+
+    const [cx, cy, cz] = this.#cellOf(center);
+    const [nx, ny, nz] = this.cells;
+    const maxRing = Math.max(nx, ny, nz);
+    const maxRadiusSquared = maxRadius * maxRadius;
+    const found: { entity: Entity; distance: number }[] = [];
+
+    // Search the shells of cells around the center, from the inside out. Once
+    // k entities are found, the search stops as soon as no unsearched cell
+    // can hold a nearer entity.
+    for (let ring = 0; ring <= maxRing; ring += 1) {
+      for (let x = cx - ring; x <= cx + ring; x += 1) {
+        for (let y = cy - ring; y <= cy + ring; y += 1) {
+          for (let z = cz - ring; z <= cz + ring; z += 1) {
+            const onShell = Math.abs(x - cx) === ring ||
+              Math.abs(y - cy) === ring ||
+              Math.abs(z - cz) === ring;
+
+            if (
+              !onShell || x < 0 || y < 0 || z < 0 ||
+              x >= nx || y >= ny || z >= nz
+            ) {
+              continue;
+            }
+
+            const cell = this.#cells.get(this.#cellIndex(x, y, z));
+
+            for (const entity of cell ?? []) {
+              const distance = distanceSquared(
+                center,
+                this.#entries.get(entity)!.position,
+              );
+
+              if (distance <= maxRadiusSquared) {
+                found.push({ entity, distance });
+              }
+            }
+          }
+        }
+      }
+
+      found.sort(compareByDistance);
+
+      const reach = ring * this.cellSize;
+
+      if (
+        reach * reach > maxRadiusSquared ||
+        (found.length >= k && found[k - 1].distance <= reach * reach)
+      ) {
+        break;
+      }
+    }
+
+    return found.slice(0, k).map(({ entity }) => entity);
+  }
+
+  /**
+   * Gets the indexed entities in the cells that overlap a box.
+   */
+  #search(min: Vector3D, max: Vector3D): Entity[] {
+    const [minX, minY, minZ] = this.#cellOf(min);
+    const [maxX, maxY, maxZ] = this.#cellOf(max);
+    const entities: Entity[] = [];
+
+    for (let z = minZ; z <= maxZ; z += 1) {
+      for (let y = minY; y <= maxY; y += 1) {
+        for (let x = minX; x <= maxX; x += 1) {
+          const cell = this.#cells.get(this.#cellIndex(x, y, z));
+
+          if (cell) {
+            entities.push(...cell);
+          }
+        }
+      }
+    }
+
+    return entities;
+  }
+
+  #cellOf(position: Vector3D): [x: number, y: number, z: number] {
+    const [nx, ny, nz] = this.cells;
+
+    return [
+      clamp(Math.floor(position.x / this.cellSize), 0, nx - 1),
+      clamp(Math.floor(position.y / this.cellSize), 0, ny - 1),
+      clamp(Math.floor(position.z / this.cellSize), 0, nz - 1),
+    ];
+  }
+
+  #cellIndex(x: number, y: number, z: number): number {
+    const [nx, ny] = this.cells;
+    return (z * ny + y) * nx + x;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function distanceSquared(a: Vector3D, b: Vector3D): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return dx * dx + dy * dy + dz * dz;
+}
+
+function compareByDistance(
+  a: { entity: Entity; distance: number },
+  b: { entity: Entity; distance: number },
+): number {
+  return a.distance - b.distance || (a.entity.id < b.entity.id ? -1 : 1);
+}
@@ -0,0 +1,317 @@
+import type Noise from "noisejs";
+import type { ArenaMapDescription } from "./config/types.js";
+import { createNoise, HightMap2D, Hightmap3D } from "./proc.js";
+
+/** The default size of the largest terrain features, in cells. */
+export const DEFAULT_TERRAIN_SCALE = 64;
+/** The default number of noise octaves. */
+export const DEFAULT_TERRAIN_OCTAVES = 5;
+/** The default frequency multiplier between octaves. */
+export const DEFAULT_TERRAIN_LACUNARITY = 2;
+/** The default amplitude multiplier between octaves. */
+export const DEFAULT_TERRAIN_PERSISTENCE = 0.5;
+
+/**
+ * How the octaves of the noise are shaped.
+ */
+export enum NoiseMode {
+  /** Plain fractal Brownian motion: rolling hills. */
+  Fbm = "fbm",
+  /** Inverted absolute noise: sharp ridges and mountain ranges. */
+  Ridged = "ridged",
+  /** Absolute noise: rounded, puffy hills with creases in between. */
+  Billow = "billow",
+}
+
+export interface TerrainOptions {
+  /**
+   * The seed of the noise. The same seed and options always generate the same
+   * terrain. The noise generator only distinguishes 2^16 seeds.
+   */
+  seed: number;
+  /** The number of cells along the x axis. */
+  width: number;
+  /** The number of cells along the y axis. */
+  height: number;
+  /**
+   * The size of the largest terrain features, in cells. Defaults to
+   * `DEFAULT_TERRAIN_SCALE`.
+   */
+  scale?: number;
+  /** The highest elevation of the terrain. Defaults to 1. */
+  elevation?: number;
+  /** The shape of the octaves. Defaults to `NoiseMode.Fbm`. */
+  mode?: NoiseMode;
+  /** The number of noise octaves. Defaults to `DEFAULT_TERRAIN_OCTAVES`. */
+  octaves?: number;
+  /**
+   * The frequency multiplier between octaves. Defaults to
+   * `DEFAULT_TERRAIN_LACUNARITY`.
+   */
+  lacunarity?: number;
+  /**
+   * The amplitude multiplier between octaves. Defaults to
+   * `DEFAULT_TERRAIN_PERSISTENCE`.
+   */
+  persistence?: number;
+  /**
+   * How far the domain warp displaces the samples, in cells. Warping bends
+   * the features into more natural shapes. Defaults to 0, which disables it.
+   */
+  warp?: number;
+  /**
+   * The size of the warp features, in cells. Defaults to the scale.
+   */
+  warpScale?: number;
+  /**
+   * How strongly the terrain falls off towards the edges, from 0 to 1. At 1,
+   * the terrain is an island that sinks to 0 at the edges. Defaults to 0.
+   */
+  falloff?: number;
+}
+
+/**
+ * A procedural terrain generator. It layers octaves of simplex noise into
+ * fractal terrain, optionally warping the domain and sinking the edges into
+ * an island. The generator is fully deterministic: the same seed and options
+ * always produce the same terrain, on every machine.
+ *
+ * ```ts
+ * const terrain = new TerrainGenerator({
+ *   seed: 1337,
+ *   width: 128,
+ *   height: 128,
+ *   mode: NoiseMode.Ridged,
+ *   warp: 12,
+ *   falloff: 0.8,
+ *   elevation: 32,
+ * });
+ *
+ * const grid = new NavigationGrid({ map: terrain.generate() });
+ * ```
+ */
+export class TerrainGenerator {
+  /** The seed of the noise. */
+  readonly seed: number;
+  /** The number of cells along the x axis. */
+  readonly width: number;
+  /** The number of cells along the y axis. */
+  readonly height: number;
+  /** The size of the largest terrain features, in cells. */
+  readonly scale: number;
+  /** The highest elevation of the terrain. */
+  readonly elevation: number;
+  /** The shape of the octaves. */
+  readonly mode: NoiseMode;
+  /** The number of noise octaves. */
+  readonly octaves: number;
+  /** The frequency multiplier between octaves. */
+  readonly lacunarity: number;
+  /** The amplitude multiplier between octaves. */
+  readonly persistence: number;
+  /** How far the domain warp displaces the samples, in cells. */
+  readonly warp: number;
+  /** The size of the warp features, in cells. */
+  readonly warpScale: number;
+  /** How strongly the terrain falls off towards the edges. */
+  readonly falloff: number;
+
+  #noise: Noise;
+
+  constructor({
+    seed,
+    width,
+    height,
+    scale = DEFAULT_TERRAIN_SCALE,
+    elevation = 1,
+    mode = NoiseMode.Fbm,
+    octaves = DEFAULT_TERRAIN_OCTAVES,
+    lacunarity = DEFAULT_TERRAIN_LACUNARITY,
+    persistence = DEFAULT_TERRAIN_PERSISTENCE,
+    warp = 0,
+    warpScale = scale,
+    falloff = 0,
+  }: TerrainOptions) {
+    if (!Number.isInteger(width) || !Number.isInteger(height)) {
+      throw new Error("The size of the terrain must be whole cells.");
+    } else if (width < 1 || height < 1) {
+      throw new Error("The terrain must have at least 1 cell.");
+    } else if (scale <= 0 || warpScale <= 0) {
+      throw new Error("The scale of the terrain must be positive.");
+    } else if (!Number.isInteger(octaves) || octaves < 1) {
+      throw new Error("The terrain must have at least 1 octave.");
+    } else if (falloff < 0 || falloff > 1) {
+      throw new Error("The falloff must be between 0 and 1.");
+    }
+
+    this.seed = seed;
+    this.width = width;
+    this.height = height;
+    this.scale = scale;
+    this.elevation = elevation;
+    this.mode = mode;
+    this.octaves = octaves;
+    this.lacunarity = lacunarity;
+    this.persistence = persistence;
+    this.warp = warp;
+    this.warpScale = warpScale;
+    this.falloff = falloff;
+    this.#noise = createNoise(seed);
+  }
+
+  /**
+   * Samples the terrain at a position. Positions outside the terrain are
+   * sampled as well, but the falloff is measured from the center.
+   * @param x The x position, in cells.
+   * @param y The y position, in cells.
+   * @returns The elevation, from 0 to the highest elevation.
+   */
+  sample(x: number, y: number): number {
+    let sx = x;
+    let sy = y;
+
+    if (this.warp !== 0) {
+      // Two uncorrelated fields displace the sample along x and y.
+      const wx = x / this.warpScale;
+      const wy = y / this.warpScale;
+      sx += this.warp * this.#fractal(wx + 5.2, wy + 1.3, NoiseMode.Fbm);
+      sy += this.warp * this.#fractal(wx - 1.7, wy + 9.2, NoiseMode.Fbm);
+    }
+
+    const noise = this.#fractal(sx / this.scale, sy / this.scale, this.mode);
+    // Fractal Brownian motion is centered on 0; the other modes are not.
+    const value = this.mode === NoiseMode.Fbm ? (noise + 1) / 2 : noise;
+
+    return clamp01(value * this.#mask(x, y)) * this.elevation;
+  }
+
+  /**
+   * Generates the terrain as a 2D height map.
+   * @returns A new height map.
+   */
+  generate(): HightMap2D {
+    const field = new Float32Array(this.width * this.height);
+
+    for (let y = 0; y < this.height; y += 1) {
+      for (let x = 0; x < this.width; x += 1) {
+        field[y * this.width + x] = this.sample(x, y);
+      }
+    }
+
+    return new HightMap2D(
+      this.seed,
+      this.width,
+      this.height,
+      this.scale,
+      field,
+    );
+  }
+
+  /**
+   * Generates the terrain as a 3D height map. The terrain is a single surface,
+   * so every layer holds the same heights: the ground below any altitude.
+   * @param depth The number of layers.
+   * @returns A new height map.
+   */
+  generate3D(depth: number): Hightmap3D {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error("The terrain must have at least 1 layer.");
+    }
+
+    const surface = this.generate().field;
+    const field = new Float32Array(surface.length * depth);
+
+    for (let z = 0; z < depth; z += 1) {
+      field.set(surface, z * surface.length);
+    }
+
+    return new Hightmap3D(
+      this.seed,
+      this.width,
+      this.height,
+      depth,
+      this.scale,
+      field,
+    );
+  }
+
+  /**
+   * Sums the octaves of the noise at a position.
+   * @returns From -1 to 1 for fractal Brownian motion, and from 0 to 1 for
+   * the other modes.
+   */
+  #fractal(x: number, y: number, mode: NoiseMode): number {
+    let sum = 0;
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+
+    for (let octave = 0; octave < this.octaves; octave += 1) {
+      // Every octave is offset, so that they do not line up at the origin.
+      const noise = this.#noise.simplex2(
+        x * frequency + octave * 17.3,
+        y * frequency - octave * 31.7,
+      );
+
+      switch (mode) {
+        case NoiseMode.Ridged:
+          sum += amplitude * (1 - Math.abs(noise)) ** 2;
+          break;
+        case NoiseMode.Billow:
+          sum += amplitude * Math.abs(noise);
+          break;
+        default:
+          sum += amplitude * noise;
+      }
+
+      total += amplitude;
+      amplitude *= this.persistence;
+      frequency *= this.lacunarity;
+    }
+
+    return total === 0 ? 0 : sum / total;
+  }
+
+  /**
+   * The island mask at a position: 1 in the center, and 1 - falloff at the
+   * edges.
+   */
+  #mask(x: number, y: number): number {
+    if (this.falloff === 0) {
+      return 1;
+    }
+
+    // The distance from the center, where the middle of the edges is 1.
+    const dx = this.width > 1 ? (2 * x) / (this.width - 1) - 1 : 0;
+    const dy = this.height > 1 ? (2 * y) / (this.height - 1) - 1 : 0;
+    const distance = Math.min(1, Math.hypot(dx, dy));
+
+    return 1 - this.falloff * distance * distance;
+  }
+}
+
+/**
+ * Generates the terrain of an arena map from a seed, so that it does not have
+ * to be authored by hand. The map gets a 3D height map as its `ref`, with its
+ * size, and its depth as the highest elevation unless another is given.
+ * @param map The map to generate the terrain of.
+ * @param options The options of the terrain generator.
+ * @returns A new map with the generated terrain.
+ */
+export function generateArenaMap(
+  map: Omit<ArenaMapDescription, "ref">,
+  options: Omit<TerrainOptions, "width" | "height">,
+): ArenaMapDescription {
+  const terrain = new TerrainGenerator({
+    elevation: map.depth,
+    ...options,
+    width: map.width,
+    height: map.height,
+  });
+
+  return { ...map, ref: terrain.generate3D(map.depth) };
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,186 @@
+/**
+ * Type declarations for the parts of fengari, a Lua 5.3 VM written in
+ * JavaScript, that the game server uses. Fengari does not ship its own.
+ * @see https://github.com/fengari-lua/fengari
+ */
+declare module "fengari" {
+  /** A Lua state. */
+  export interface LuaState {
+    readonly __luaState: unique symbol;
+  }
+
+  /** A Lua string, as bytes. */
+  export type LuaString = Uint8Array;
+
+  /**
+   * A JavaScript function that can be called from Lua.
+   * @returns The number of results it pushed onto the stack.
+   */
+  export type LuaJSFunction = (L: LuaState) => number;
+
+  /**
+   * A continuation of a JavaScript function that yielded.
+   * @returns The number of results it pushed onto the stack.
+   */
+  export type LuaKFunction = (L: LuaState, status: number, ctx: number) => number;
+
+  /**
+   * A string buffer of the auxiliary library, which the standard library
+   * builds its strings in.
+   */
+  export interface LuaBuffer {
+    /** The state that the buffer belongs to, once it is initialized. */
+    L: LuaState | null;
+    /** The storage of the buffer. */
+    b: Uint8Array;
+    /** The length of the content of the buffer. */
+    n: number;
+  }
+
+  /** A debug record, as passed to hooks. */
+  export interface LuaDebug {
+    event: number;
+    currentline: number;
+  }
+
+  /** A hook function. */
+  export type LuaHook = (L: LuaState, ar: LuaDebug) => void;
+
+  export const lua: {
+    readonly LUA_OK: number;
+    readonly LUA_YIELD: number;
+    readonly LUA_ERRRUN: number;
+    readonly LUA_ERRSYNTAX: number;
+    readonly LUA_ERRMEM: number;
+    readonly LUA_ERRERR: number;
+    readonly LUA_MULTRET: number;
+    readonly LUA_REGISTRYINDEX: number;
+    readonly LUA_TNONE: number;
+    readonly LUA_TNIL: number;
+    readonly LUA_TBOOLEAN: number;
+    readonly LUA_TLIGHTUSERDATA: number;
+    readonly LUA_TNUMBER: number;
+    readonly LUA_TSTRING: number;
+    readonly LUA_TTABLE: number;
+    readonly LUA_TFUNCTION: number;
+    readonly LUA_TUSERDATA: number;
+    readonly LUA_TTHREAD: number;
+    readonly LUA_MASKCALL: number;
+    readonly LUA_MASKRET: number;
+    readonly LUA_MASKLINE: number;
+    readonly LUA_MASKCOUNT: number;
+    readonly LUA_VERSION_MAJOR: string;
+    readonly LUA_VERSION_MINOR: string;
+
+    lua_absindex(L: LuaState, idx: number): number;
+    lua_call(L: LuaState, nargs: number, nresults: number): void;
+    lua_close(L: LuaState): void;
+    lua_concat(L: LuaState, n: number): void;
+    lua_createtable(L: LuaState, narr: number, nrec: number): void;
+    lua_error(L: LuaState): number;
+    lua_getfield(L: LuaState, idx: number, k: LuaString): number;
+    lua_getglobal(L: LuaState, name: LuaString): number;
+    lua_gethookcount(L: LuaState): number;
+    lua_gettop(L: LuaState): number;
+    lua_insert(L: LuaState, idx: number): void;
+    lua_isfunction(L: LuaState, idx: number): boolean;
+    lua_isinteger(L: LuaState, idx: number): boolean;
+    lua_isnil(L: LuaState, idx: number): boolean;
+    lua_isyieldable(L: LuaState): boolean;
+    lua_newtable(L: LuaState): void;
+    lua_newthread(L: LuaState): LuaState;
+    lua_next(L: LuaState, idx: number): boolean;
+    lua_pcall(L: LuaState, nargs: number, nresults: number, msgh: number): number;
+    lua_pop(L: LuaState, n: number): void;
+    lua_pushboolean(L: LuaState, b: boolean): void;
+    lua_pushinteger(L: LuaState, n: number): void;
+    lua_pushjsclosure(L: LuaState, fn: LuaJSFunction, n: number): void;
+    lua_pushjsfunction(L: LuaState, fn: LuaJSFunction): void;
+    lua_pushnil(L: LuaState): void;
+    lua_pushnumber(L: LuaState, n: number): void;
+    lua_pushstring(L: LuaState, s: LuaString): LuaString;
+    lua_pushvalue(L: LuaState, idx: number): void;
+    lua_rawequal(L: LuaState, idx1: number, idx2: number): boolean;
+    lua_rawgeti(L: LuaState, idx: number, n: number): number;
+    lua_rawseti(L: LuaState, idx: number, n: number): void;
+    lua_remove(L: LuaState, idx: number): void;
+    lua_resume(L: LuaState, from: LuaState | null, nargs: number): number;
+    lua_setfield(L: LuaState, idx: number, k: LuaString): void;
+    lua_setglobal(L: LuaState, name: LuaString): void;
+    lua_sethook(L: LuaState, func: LuaHook | null, mask: number, count: number): void;
+    lua_setmetatable(L: LuaState, idx: number): void;
+    lua_settable(L: LuaState, idx: number): void;
+    lua_settop(L: LuaState, idx: number): void;
+    lua_status(L: LuaState): number;
+    lua_toboolean(L: LuaState, idx: number): boolean;
+    lua_tojsstring(L: LuaState, idx: number): string;
+    lua_tonumber(L: LuaState, idx: number): number;
+    lua_type(L: LuaState, idx: number): number;
+    lua_typename(L: LuaState, t: number): LuaString;
+    lua_upvalueindex(i: number): number;
+    lua_yield(L: LuaState, nresults: number): number;
+    lua_yieldk(
+      L: LuaState,
+      nresults: number,
+      ctx: number,
+      k: LuaKFunction,
+    ): number;
+  };
+
+  export const lauxlib: {
+    readonly LUA_NOREF: number;
+    readonly LUA_REFNIL: number;
+    readonly luaL_Buffer: { new (): LuaBuffer; prototype: LuaBuffer };
+
+    luaL_checkinteger(L: LuaState, arg: number): number;
+    luaL_checklstring(L: LuaState, arg: number): LuaString;
+    luaL_error(L: LuaState, fmt: LuaString, ...args: unknown[]): number;
+    luaL_loadbufferx(
+      L: LuaState,
+      buff: LuaString,
+      size: number,
+      name: LuaString,
+      mode: LuaString | null,
+    ): number;
+    luaL_newstate(): LuaState;
+    luaL_optlstring(L: LuaState, arg: number, def: LuaString): LuaString;
+    luaL_ref(L: LuaState, t: number): number;
+    luaL_requiref(
+      L: LuaState,
+      modname: LuaString,
+      openf: LuaJSFunction,
+      glb: boolean,
+    ): void;
+    luaL_tolstring(L: LuaState, idx: number): LuaString;
+    luaL_traceback(
+      L: LuaState,
+      L1: LuaState,
+      msg: LuaString | null,
+      level: number,
+    ): void;
+    luaL_unref(L: LuaState, t: number, ref: number): void;
+    luaL_where(L: LuaState, level: number): void;
+  };
+
+  export const lualib: {
+    readonly LUA_COLIBNAME: string;
+    readonly LUA_TABLIBNAME: string;
+    readonly LUA_STRLIBNAME: string;
+    readonly LUA_UTF8LIBNAME: string;
+    readonly LUA_MATHLIBNAME: string;
+
+    luaopen_base: LuaJSFunction;
+    luaopen_coroutine: LuaJSFunction;
+    luaopen_math: LuaJSFunction;
+    luaopen_string: LuaJSFunction;
+    luaopen_table: LuaJSFunction;
+    luaopen_utf8: LuaJSFunction;
+  };
+
+  export function to_jsstring(
+    value: LuaString,
+    from?: number,
+    to?: number,
+  ): string;
+  export function to_luastring(value: string): LuaString;
+}